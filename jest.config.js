@@ -1,6 +1,7 @@
 module.exports = {
+  preset: 'ts-jest',
   testEnvironment: 'node',
   collectCoverage: true,
   coverageDirectory: 'coverage',
-  testMatch: ['**/src/**/*.test.js', '**/src/**/*.test.ts'],
+  testMatch: ['**/src/**/*.test.js', '**/src/**/*.test.ts', '**/src/**/*.test.tsx'],
 };
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment jsdom
+ */
+import AutoCapture from './autoCapture';
+import ComponentTracker from './componentTracker';
+import ConsentManager from './consentManager';
+import DatabaseManager, { InteractionRecord } from './databaseManager';
+import EventBus from './eventBus';
+import InteractionTracker from './interactionTracker';
+import SessionManager from './sessionManager';
+
+// Saving is encrypted with WebCrypto, which jsdom does not provide, and is not what these tests are about.
+const database = { saveInteraction: () => Promise.resolve() } as unknown as DatabaseManager;
+
+describe('AutoCapture', () => {
+    let now: number;
+    let componentTracker: ComponentTracker;
+    let autoCapture: AutoCapture;
+    let tracked: InteractionRecord[];
+
+    beforeEach(() => {
+        now = Date.UTC(2024, 0, 1);
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        document.body.innerHTML = `
+            <section data-predict-component="catalog" data-predict-component-type="page" data-predict-context-page="catalog">
+                <button data-predict-action="open-product" data-predict-context-slot="top"><span id="label">Open</span></button>
+                <form data-predict-action="search"><input id="query" type="text"></form>
+                <input id="filter" type="text" data-predict-action="filter">
+                <a id="hover" data-predict-action="preview" data-predict-on="focus click" href="#">Preview</a>
+                <div data-predict-ignore><button id="ignored" data-predict-action="secret"></button></div>
+                <button id="admin" class="admin" data-predict-action="admin"></button>
+            </section>`;
+        const events = new EventBus();
+        componentTracker = new ComponentTracker(events);
+        const interactionTracker = new InteractionTracker(
+            componentTracker,
+            database,
+            new SessionManager({ storageKey: null }),
+            new ConsentManager({ initialState: 'granted', storageKey: null }),
+            events
+        );
+        autoCapture = new AutoCapture(interactionTracker, componentTracker, { ignoreSelectors: ['.admin'], ignoreActions: ['hidden'] });
+        autoCapture.start();
+        tracked = [];
+        events.on('interactionTracked', (interaction) => tracked.push(interaction));
+    });
+
+    afterEach(() => {
+        autoCapture.stop();
+        document.body.innerHTML = '';
+        jest.restoreAllMocks();
+    });
+
+    const click = (selector: string) => document.querySelector<HTMLElement>(selector)!.click();
+    const actions = () => tracked.map(interaction => interaction.actionType);
+
+    it('captures clicks on nested elements through the delegated listener', () => {
+        click('#label');
+
+        expect(actions()).toEqual(['open-product']);
+        expect(tracked[0].componentId).toBe('catalog');
+        expect(tracked[0].context).toMatchObject({ page: 'catalog', slot: 'top' });
+        expect(componentTracker.getComponent('catalog')?.type).toBe('page');
+    });
+
+    it('captures each element on its own trigger', () => {
+        document.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+        document.getElementById('filter')!.focus();
+        click('#filter');
+        document.getElementById('hover')!.focus();
+        click('#hover');
+
+        expect(actions()).toEqual(['search', 'filter', 'preview', 'preview']);
+    });
+
+    it('throttles repeated captures of the same action and trigger', () => {
+        click('#label');
+        now += 100;
+        click('#label');
+        now += 500;
+        click('#label');
+
+        expect(actions()).toEqual(['open-product', 'open-product']);
+    });
+
+    it('skips ignored elements, selectors and actions', () => {
+        const button = document.createElement('button');
+        button.setAttribute('data-predict-action', 'hidden');
+        document.querySelector('section')!.appendChild(button);
+
+        click('#ignored');
+        click('#admin');
+        button.click();
+
+        expect(actions()).toEqual([]);
+    });
+
+    it('stops listening once stopped', () => {
+        autoCapture.stop();
+        click('#label');
+
+        expect(autoCapture.isRunning()).toBe(false);
+        expect(actions()).toEqual([]);
+    });
+
+    it('associates the action again after the component was untracked and tracked anew', () => {
+        click('#label');
+        componentTracker.untrackComponent('catalog');
+        now += 1000;
+        click('#label');
+
+        expect(actions()).toEqual(['open-product', 'open-product']);
+        expect(componentTracker.getComponentByAction('open-product')).toBe('catalog');
+    });
+});
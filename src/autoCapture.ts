@@ -0,0 +1,168 @@
+//autoCapture.ts
+import ComponentTracker from './componentTracker';
+import InteractionTracker from './interactionTracker';
+import { InteractionContext } from './context';
+
+export type CaptureTrigger = 'click' | 'submit' | 'focus';
+
+export interface AutoCaptureOptions {
+    root?: Document | HTMLElement;
+    triggers?: CaptureTrigger[];
+    actionAttribute?: string;
+    componentAttribute?: string;
+    componentTypeAttribute?: string;
+    triggerAttribute?: string;
+    contextAttributePrefix?: string;
+    ignoreAttribute?: string;
+    ignoreSelectors?: string[];
+    ignoreActions?: string[];
+    throttleMs?: number;
+}
+
+const DOM_EVENTS: Record<CaptureTrigger, string> = {
+    click: 'click',
+    submit: 'submit',
+    focus: 'focusin',
+};
+
+const FOCUSABLE_INPUTS = ['INPUT', 'TEXTAREA', 'SELECT'];
+const CLICKABLE_INPUT_TYPES = ['button', 'submit', 'reset', 'checkbox', 'radio', 'image'];
+
+class AutoCapture {
+    private interactionTracker: InteractionTracker;
+    private componentTracker: ComponentTracker;
+    private root: Document | HTMLElement | null;
+    private triggers: CaptureTrigger[];
+    private actionAttribute: string;
+    private componentAttribute: string;
+    private componentTypeAttribute: string;
+    private triggerAttribute: string;
+    private contextAttributePrefix: string;
+    private ignoreAttribute: string;
+    private ignoreSelectors: string[];
+    private ignoreActions: Set<string>;
+    private throttleMs: number;
+    private lastCaptured: Map<string, number>;
+    private listeners: Array<[string, (event: Event) => void]>;
+
+    constructor(interactionTracker: InteractionTracker, componentTracker: ComponentTracker, options: AutoCaptureOptions = {}) {
+        this.interactionTracker = interactionTracker;
+        this.componentTracker = componentTracker;
+        this.root = options.root ?? (typeof document !== 'undefined' ? document : null);
+        this.triggers = options.triggers ?? ['click', 'submit', 'focus'];
+        this.actionAttribute = options.actionAttribute ?? 'data-predict-action';
+        this.componentAttribute = options.componentAttribute ?? 'data-predict-component';
+        this.componentTypeAttribute = options.componentTypeAttribute ?? 'data-predict-component-type';
+        this.triggerAttribute = options.triggerAttribute ?? 'data-predict-on';
+        this.contextAttributePrefix = options.contextAttributePrefix ?? 'data-predict-context-';
+        this.ignoreAttribute = options.ignoreAttribute ?? 'data-predict-ignore';
+        this.ignoreSelectors = options.ignoreSelectors ?? [];
+        this.ignoreActions = new Set(options.ignoreActions ?? []);
+        this.throttleMs = options.throttleMs ?? 500;
+        this.lastCaptured = new Map();
+        this.listeners = [];
+    }
+
+    public start(): void {
+        if (this.listeners.length) return;
+        if (!this.root) {
+            console.warn('AutoCapture: DOM недоступен, автоматический сбор отключен');
+            return;
+        }
+
+        for (const trigger of this.triggers) {
+            const listener = (event: Event) => this.handleEvent(trigger, event);
+            // Capture phase, so handlers that stop propagation inside the app do not hide interactions.
+            this.root.addEventListener(DOM_EVENTS[trigger], listener, true);
+            this.listeners.push([DOM_EVENTS[trigger], listener]);
+        }
+    }
+
+    public stop(): void {
+        for (const [type, listener] of this.listeners) {
+            this.root?.removeEventListener(type, listener, true);
+        }
+        this.listeners = [];
+    }
+
+    public isRunning(): boolean {
+        return this.listeners.length > 0;
+    }
+
+    public ignoreAction(actionType: string): void {
+        this.ignoreActions.add(actionType);
+    }
+
+    private handleEvent(trigger: CaptureTrigger, event: Event): void {
+        const target = event.target;
+        if (!target || typeof (target as Element).closest !== 'function') return;
+
+        const element = (target as Element).closest(`[${this.actionAttribute}]`);
+        if (!element || !this.getTriggers(element).includes(trigger)) return;
+        if (this.isIgnored(element)) return;
+
+        const actionType = element.getAttribute(this.actionAttribute);
+        if (!actionType || this.ignoreActions.has(actionType)) return;
+
+        const now = Date.now();
+        const throttleKey = `${trigger}:${actionType}`;
+        if (now - (this.lastCaptured.get(throttleKey) ?? -Infinity) < this.throttleMs) return;
+        this.lastCaptured.set(throttleKey, now);
+
+        const componentElement = element.closest(`[${this.componentAttribute}]`);
+        const componentId = componentElement?.getAttribute(this.componentAttribute);
+        if (componentElement && componentId) {
+            this.associate(actionType, componentId, componentElement.getAttribute(this.componentTypeAttribute) ?? 'element');
+        }
+
+        this.interactionTracker.trackInteraction(actionType, this.getContext(element));
+    }
+
+    private getTriggers(element: Element): CaptureTrigger[] {
+        const declared = element.getAttribute(this.triggerAttribute);
+        if (declared) {
+            return declared.split(/[\s,]+/).filter((trigger): trigger is CaptureTrigger => trigger in DOM_EVENTS);
+        }
+        if (element.tagName === 'FORM') return ['submit'];
+        if (FOCUSABLE_INPUTS.includes(element.tagName)
+            && !CLICKABLE_INPUT_TYPES.includes((element.getAttribute('type') ?? '').toLowerCase())) {
+            return ['focus'];
+        }
+        return ['click'];
+    }
+
+    private isIgnored(element: Element): boolean {
+        if (element.closest(`[${this.ignoreAttribute}]`)) return true;
+        return this.ignoreSelectors.some(selector => element.closest(selector));
+    }
+
+    // Asks the tracker every time, so a component that was untracked and mounted again gets its association back.
+    private associate(actionType: string, componentId: string, type: string): void {
+        const associated = this.componentTracker.getComponentsByAction(actionType)
+            .some(association => association.componentId === componentId);
+        if (associated) return;
+
+        if (!this.componentTracker.isTracked(componentId)) {
+            this.componentTracker.trackComponent(componentId, type, { source: 'autoCapture' });
+        }
+        this.componentTracker.associateActionWithComponent(actionType, componentId);
+    }
+
+    private getContext(element: Element): InteractionContext | undefined {
+        const context: InteractionContext = {};
+        let current: Element | null = element;
+        while (current) {
+            for (const attribute of Array.from(current.attributes)) {
+                if (!attribute.name.startsWith(this.contextAttributePrefix)) continue;
+                const key = attribute.name.slice(this.contextAttributePrefix.length);
+                if (!(key in context)) {
+                    context[key] = attribute.value;
+                }
+            }
+            current = current.parentElement;
+        }
+        return Object.keys(context).length ? context : undefined;
+    }
+}
+
+export default AutoCapture;
@@ -0,0 +1,125 @@
+import { gridSearch, parseInteractionLog, randomSearch, runBacktest } from './backtest';
+import { InteractionRecord } from './databaseManager';
+import { Predictor } from './predictor';
+
+const records = [
+    { actionType: 'search', timestamp: 2000 },
+    { actionType: 'home', timestamp: 1000 },
+];
+
+describe('parseInteractionLog', () => {
+    it('reads JSON arrays and NDJSON sorted by timestamp', () => {
+        const expected = [records[1], records[0]];
+        expect(parseInteractionLog(JSON.stringify(records))).toEqual(expected);
+        expect(parseInteractionLog(records.map(record => JSON.stringify(record)).join('\n'))).toEqual(expected);
+        expect(parseInteractionLog(JSON.stringify(records[0]))).toEqual([records[0]]);
+    });
+
+    it('reads the interactions of an exportUserData() document', () => {
+        const exported = { exportedAt: 3000, appId: null, interactions: records, aggregates: null, snapshot: null };
+        expect(parseInteractionLog(JSON.stringify(exported, null, 2))).toEqual([records[1], records[0]]);
+    });
+
+    it('rejects entries without an action type or timestamp', () => {
+        expect(() => parseInteractionLog(JSON.stringify([{ actionType: 'home' }]))).toThrow('position 0');
+    });
+});
+
+const START = Date.UTC(2024, 0, 1, 12);
+const CYCLE = ['home', 'search', 'product'];
+// Thirty interactions a minute apart that always go home -> search -> product.
+const cycleLog: InteractionRecord[] = Array.from({ length: 30 }, (_, i) => ({
+    componentId: CYCLE[i % 3],
+    actionType: CYCLE[i % 3],
+    timestamp: START + i * 60 * 1000,
+    sessionId: 'session',
+}));
+
+const fixedPredictor = (): Predictor => ({
+    name: 'fixed',
+    observe: () => undefined,
+    predict: () => new Map([['home', 0.5], ['search', 0.25], ['product', 0.25]]),
+});
+
+describe('runBacktest', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('scores every interaction after the first against the prediction made before it', () => {
+        const result = runBacktest(cycleLog, {}, { predictor: fixedPredictor, k: 1 });
+
+        // Of the 29 scored interactions 9 are 'home' (p = 0.5) and 20 are 'search' or 'product' (p = 0.25).
+        expect(result.evaluated).toBe(29);
+        expect(result.accuracy).toBeCloseTo(9 / 29);
+        expect(result.hitAtK).toBeCloseTo(9 / 29);
+        expect(result.logLoss).toBeCloseTo((9 * Math.log(2) + 20 * Math.log(4)) / 29);
+        expect(result.coverage).toBe(1);
+    });
+
+    it('learns a deterministic cycle once the warmup is over', () => {
+        const result = runBacktest(cycleLog, {}, { warmup: 6 });
+
+        expect(result.evaluated).toBe(24);
+        expect(result.accuracy).toBe(1);
+        expect(result.coverage).toBe(1);
+        expect(result.logLoss).toBeLessThan(Math.log(2));
+    });
+
+    it('reports zeros for a log too short to score', () => {
+        expect(runBacktest(cycleLog.slice(0, 1))).toEqual({
+            params: {},
+            evaluated: 0,
+            accuracy: 0,
+            hitAtK: 0,
+            logLoss: 0,
+            coverage: 0,
+        });
+    });
+});
+
+describe('hyperparameter search', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('tries every grid combination and ranks them by the objective', () => {
+        const search = gridSearch(cycleLog, { weightSequence: [0, 0.5, 1], weightTime: [0.5, 1] }, { warmup: 6 });
+
+        expect(search.results).toHaveLength(6);
+        const losses = search.results.map(result => result.logLoss);
+        expect(losses).toEqual([...losses].sort((a, b) => a - b));
+        // On a strict cycle the sequence signal is what predicts the next action.
+        expect(search.best!.params.weightSequence).toBe(1);
+        expect(search.best!.accuracy).toBe(1);
+    });
+
+    it('maximises accuracy when asked to', () => {
+        const search = gridSearch(cycleLog, { weightSequence: [0, 1] }, { warmup: 6, objective: 'accuracy' });
+
+        expect(search.best!.params).toEqual({ weightSequence: 1 });
+        expect(search.results[1].accuracy).toBeLessThan(1);
+    });
+
+    it('samples a seeded random search reproducibly and returns its best trial', () => {
+        const space = { weightSequence: [0, 1] as [number, number], historyLength: [5, 50] as [number, number] };
+        const search = randomSearch(cycleLog, space, { warmup: 6, trials: 5, seed: 7 });
+
+        expect(search.results).toHaveLength(5);
+        expect(randomSearch(cycleLog, space, { warmup: 6, trials: 5, seed: 7 })).toEqual(search);
+        for (const { params } of search.results) {
+            expect(params.weightSequence).toBeGreaterThanOrEqual(0);
+            expect(params.weightSequence).toBeLessThanOrEqual(1);
+            expect(Number.isInteger(params.historyLength)).toBe(true);
+        }
+        expect(search.best!.logLoss).toBe(Math.min(...search.results.map(result => result.logLoss)));
+    });
+});
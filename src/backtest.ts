@@ -0,0 +1,211 @@
+//backtest.ts
+import PredictionModel, { ModelHyperparameters } from './predictionModel';
+import DatabaseManager, { InteractionRecord } from './databaseManager';
+import ComponentTracker from './componentTracker';
+import ComponentPreloader from './componentPreloader';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+import SessionManager from './sessionManager';
+import ConsentManager from './consentManager';
+import { createStaticKeyProvider } from './keyProvider';
+import { PredictorFactory } from './predictor';
+import { TemporalOptions } from './temporal';
+import EventBus from './eventBus';
+
+export type SearchableParameter =
+    | 'decayLambda'
+    | 'smoothingFactor'
+    | 'weightSequence'
+    | 'weightTime'
+    | 'maxPatternLength'
+    | 'historyLength';
+
+export type BacktestObjective = 'logLoss' | 'accuracy' | 'hitAtK';
+
+export interface BacktestOptions {
+    k?: number;
+    warmup?: number;
+    sessionTimeoutMs?: number;
+    predictor?: PredictorFactory;
+    temporal?: TemporalOptions;
+}
+
+export interface BacktestResult {
+    params: ModelHyperparameters;
+    evaluated: number;
+    accuracy: number;
+    hitAtK: number;
+    logLoss: number;
+    coverage: number;
+}
+
+export interface SearchOptions extends BacktestOptions {
+    objective?: BacktestObjective;
+}
+
+export interface RandomSearchOptions extends SearchOptions {
+    trials?: number;
+    seed?: number;
+}
+
+export interface SearchResult {
+    best: BacktestResult | null;
+    results: BacktestResult[];
+}
+
+const MIN_PROBABILITY = 1e-6;
+const INTEGER_PARAMETERS: SearchableParameter[] = ['maxPatternLength', 'historyLength'];
+
+function parseLogEntries(contents: string): unknown[] {
+    if (contents.startsWith('[')) return JSON.parse(contents);
+    if (contents.startsWith('{')) {
+        try {
+            // A whole-document parse only succeeds for exportUserData() output or a single-line log.
+            const document = JSON.parse(contents);
+            return Array.isArray(document?.interactions) ? document.interactions : [document];
+        } catch {
+            // Several objects, one per line: fall through to NDJSON.
+        }
+    }
+    return contents.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+}
+
+export function parseInteractionLog(contents: string): InteractionRecord[] {
+    const trimmed = contents.trim();
+    if (!trimmed) return [];
+
+    return parseLogEntries(trimmed)
+        .map((entry, index) => {
+            const record = entry as InteractionRecord;
+            if (typeof record.actionType !== 'string' || typeof record.timestamp !== 'number') {
+                throw new Error(`Invalid interaction record at position ${index}`);
+            }
+            return record;
+        })
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function createReplayModel(
+    params: ModelHyperparameters,
+    clock: () => number,
+    sessionManager: SessionManager,
+    options: BacktestOptions
+): PredictionModel {
+    const events = new EventBus();
+    const componentTracker = new ComponentTracker(events);
+    const keyProvider = createStaticKeyProvider('0'.repeat(64), 'backtest');
+    const databaseManager = new DatabaseManager(new MemoryStorageAdapter(), keyProvider);
+    databaseManager.setEventBus(events);
+    return new PredictionModel({
+        ...params,
+        serverUrl: null,
+        clock,
+        predictor: options.predictor,
+        temporal: options.temporal,
+        componentTracker,
+        keyProvider,
+        sessionManager,
+        databaseManager,
+        preloader: new ComponentPreloader({ componentTracker, events }),
+        consentManager: new ConsentManager({ initialState: 'granted', storageKey: null }),
+        privacy: { storageKey: null },
+        events,
+    });
+}
+
+export function runBacktest(
+    records: InteractionRecord[],
+    params: ModelHyperparameters = {},
+    options: BacktestOptions = {}
+): BacktestResult {
+    const k = options.k ?? 3;
+    const warmup = options.warmup ?? 0;
+    let now = records.length ? records[0].timestamp : 0;
+    const sessionManager = new SessionManager({ inactivityTimeoutMs: options.sessionTimeoutMs, storageKey: null });
+    const model = createReplayModel(params, () => now, sessionManager, options);
+
+    let evaluated = 0;
+    let covered = 0;
+    let top1 = 0;
+    let topK = 0;
+    let logLoss = 0;
+
+    records.forEach((record, index) => {
+        // Predictions are made right after the previous interaction, the same moment the live model predicts.
+        if (index > 0 && index >= warmup) {
+            const distribution = model.predictTopK(Number.MAX_SAFE_INTEGER, now);
+            const rank = distribution.findIndex(candidate => candidate.action === record.actionType);
+            evaluated++;
+            if (distribution.length) covered++;
+            if (rank === 0) top1++;
+            if (rank >= 0 && rank < k) topK++;
+            logLoss -= Math.log(Math.max(MIN_PROBABILITY, rank >= 0 ? distribution[rank].probability : 0));
+        }
+
+        now = record.timestamp;
+        model.observe({ ...record, sessionId: sessionManager.touch(record.timestamp) });
+    });
+
+    return {
+        params,
+        evaluated,
+        accuracy: evaluated ? top1 / evaluated : 0,
+        hitAtK: evaluated ? topK / evaluated : 0,
+        logLoss: evaluated ? logLoss / evaluated : 0,
+        coverage: evaluated ? covered / evaluated : 0,
+    };
+}
+
+function isBetter(candidate: BacktestResult, best: BacktestResult | null, objective: BacktestObjective): boolean {
+    if (!best) return true;
+    return objective === 'logLoss' ? candidate.logLoss < best.logLoss : candidate[objective] > best[objective];
+}
+
+function summarize(results: BacktestResult[], objective: BacktestObjective): SearchResult {
+    const sorted = [...results].sort((a, b) => (isBetter(a, b, objective) ? -1 : isBetter(b, a, objective) ? 1 : 0));
+    return { best: sorted[0] ?? null, results: sorted };
+}
+
+export function gridSearch(
+    records: InteractionRecord[],
+    grid: Partial<Record<SearchableParameter, number[]>>,
+    options: SearchOptions = {}
+): SearchResult {
+    let combinations: ModelHyperparameters[] = [{}];
+    for (const [name, values] of Object.entries(grid) as Array<[SearchableParameter, number[]]>) {
+        combinations = combinations.flatMap(params => values.map(value => ({ ...params, [name]: value })));
+    }
+
+    const results = combinations.map(params => runBacktest(records, params, options));
+    return summarize(results, options.objective ?? 'logLoss');
+}
+
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function randomSearch(
+    records: InteractionRecord[],
+    space: Partial<Record<SearchableParameter, [number, number]>>,
+    options: RandomSearchOptions = {}
+): SearchResult {
+    const random = createRandom(options.seed ?? Date.now());
+    const results: BacktestResult[] = [];
+
+    for (let trial = 0; trial < (options.trials ?? 20); trial++) {
+        const params: ModelHyperparameters = {};
+        for (const [name, [min, max]] of Object.entries(space) as Array<[SearchableParameter, [number, number]]>) {
+            const value = min + random() * (max - min);
+            params[name] = INTEGER_PARAMETERS.includes(name) ? Math.round(value) : value;
+        }
+        results.push(runBacktest(records, params, options));
+    }
+
+    return summarize(results, options.objective ?? 'logLoss');
+}
@@ -0,0 +1,45 @@
+import ComponentPreloader from './componentPreloader';
+import ComponentTracker from './componentTracker';
+import EventBus from './eventBus';
+
+function createPreloader(clock: () => number) {
+    const events = new EventBus();
+    const preloader = new ComponentPreloader({
+        componentTracker: new ComponentTracker(events),
+        events,
+        cache: { ttlMs: 1000, clock },
+    });
+    preloader.registerLoader('report', () => Promise.resolve('report'));
+    return preloader;
+}
+
+describe('ComponentPreloader metrics', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('counts a preload as used when it is read within its TTL', async () => {
+        const preloader = createPreloader(() => 0);
+        await preloader.preloadComponent('report');
+
+        await expect(preloader.getPreloaded('report')).resolves.toBe('report');
+        const [window] = preloader.getMetrics().windows;
+        expect(window).toMatchObject({ preloadsStarted: 1, preloadsUsed: 1, cacheHits: 1 });
+    });
+
+    it('does not credit an expired preload for hits on a later load', async () => {
+        let now = 0;
+        const preloader = createPreloader(() => now);
+        await preloader.preloadComponent('report');
+
+        now = 1000;
+        await preloader.getPreloaded('report');
+        await preloader.getPreloaded('report');
+        const [window] = preloader.getMetrics().windows;
+        expect(window).toMatchObject({ preloadsStarted: 1, preloadsUsed: 0, preloadsWasted: 1, cacheHits: 1, cacheMisses: 1 });
+    });
+});
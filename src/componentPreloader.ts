@@ -1,39 +1,276 @@
 //componentPreloader.ts
-import predictionModelInstance from './predictionModel';
+import type PredictionModel from './predictionModel';
+import type { PredictionCandidate } from './predictionModel';
 import ComponentTracker from './componentTracker';
+import MetricsCollector, { MetricsSnapshot } from './metricsCollector';
+import EventBus from './eventBus';
+import PreloadScheduler, { PreloadSchedulerOptions, PreloadTask } from './preloadScheduler';
+import PreloadCache, { PreloadCacheOptions, PreloadCacheStats } from './preloadCache';
+import ResourcePrefetcher, { ResourcePrefetcherOptions } from './resourcePrefetcher';
+
+export type ComponentLoader<T = any> = (signal?: AbortSignal) => Promise<T>;
+
+export interface ComponentPreloaderOptions {
+    componentTracker?: ComponentTracker;
+    predictionModel?: PredictionModel;
+    probabilityThreshold?: number;
+    maxCandidates?: number;
+    preloadChildren?: boolean;
+    scheduler?: PreloadSchedulerOptions;
+    cache?: PreloadCacheOptions;
+    prefetch?: ResourcePrefetcherOptions;
+    metrics?: MetricsCollector;
+    events?: EventBus;
+}
+
+type CacheEntry = {
+    promise: Promise<any>;
+    module?: any;
+    loaded: boolean;
+    speculative: boolean;
+    startedAt: number;
+};
 
 class ComponentPreloader {
+    private static instance: ComponentPreloader;
     private componentTracker: ComponentTracker;
-    private componentCache: Map<string, any>;
+    private predictionModel: PredictionModel | null;
+    private componentCache: PreloadCache<CacheEntry>;
+    private loaders: Map<string, ComponentLoader>;
+    private probabilityThreshold: number;
+    private maxCandidates: number;
+    private preloadChildren: boolean;
+    private metrics: MetricsCollector;
+    private events: EventBus;
+    private scheduler: PreloadScheduler;
+    private prefetcher: ResourcePrefetcher;
+
+    constructor(options: ComponentPreloaderOptions = {}) {
+        this.componentTracker = options.componentTracker ?? ComponentTracker.getInstance();
+        this.predictionModel = options.predictionModel ?? null;
+        this.componentCache = new PreloadCache<CacheEntry>(options.cache);
+        this.loaders = new Map<string, ComponentLoader>();
+        this.probabilityThreshold = options.probabilityThreshold ?? 0.2;
+        this.maxCandidates = options.maxCandidates ?? 3;
+        this.preloadChildren = options.preloadChildren ?? true;
+        this.metrics = options.metrics ?? new MetricsCollector();
+        this.events = options.events ?? EventBus.getInstance();
+        this.prefetcher = new ResourcePrefetcher(options.prefetch);
+        this.scheduler = new PreloadScheduler({
+            ...options.scheduler,
+            onCancel: (componentId) => {
+                this.events.emit('preloadCancelled', { componentId });
+                options.scheduler?.onCancel?.(componentId);
+            },
+        });
+    }
+
+    public static getInstance(): ComponentPreloader {
+        if (!ComponentPreloader.instance) {
+            ComponentPreloader.instance = new ComponentPreloader();
+        }
+        return ComponentPreloader.instance;
+    }
+
+    public setPredictionModel(predictionModel: PredictionModel): void {
+        this.predictionModel = predictionModel;
+    }
+
+    public registerLoader(componentId: string, loader: ComponentLoader): void {
+        if (this.loaders.has(componentId)) {
+            console.warn(`Загрузчик для компонента '${componentId}' уже зарегистрирован и будет заменен.`);
+            this.componentCache.invalidate(componentId);
+        }
+        this.loaders.set(componentId, loader);
+    }
+
+    public registerLoaders(loaders: Record<string, ComponentLoader>): void {
+        for (const [componentId, loader] of Object.entries(loaders)) {
+            this.registerLoader(componentId, loader);
+        }
+    }
+
+    public hasLoader(componentId: string): boolean {
+        return this.loaders.has(componentId);
+    }
+
+    public setProbabilityThreshold(threshold: number): void {
+        this.probabilityThreshold = threshold;
+    }
+
+    public setMaxCandidates(maxCandidates: number): void {
+        this.maxCandidates = maxCandidates;
+    }
+
+    public getMaxCandidates(): number {
+        return this.maxCandidates;
+    }
+
+    public getPrefetcher(): ResourcePrefetcher {
+        return this.prefetcher;
+    }
+
+    public getScheduler(): PreloadScheduler {
+        return this.scheduler;
+    }
+
+    public cancelScheduled(): void {
+        this.scheduler.cancelAll();
+    }
 
-    constructor() {
-        this.componentTracker = ComponentTracker.getInstance();
-        this.componentCache = new Map<string, any>();
+    public invalidate(componentId: string): boolean {
+        this.scheduler.cancel(componentId);
+        return this.componentCache.invalidate(componentId);
+    }
+
+    public clearCache(): void {
+        this.componentCache.clear();
+    }
+
+    public getCacheStats(): PreloadCacheStats {
+        return this.componentCache.getStats();
+    }
+
+    public getMetricsCollector(): MetricsCollector {
+        return this.metrics;
+    }
+
+    public getMetrics(): MetricsSnapshot {
+        return this.metrics.getMetrics();
     }
 
     public preloadNextComponent(): void {
-        const prediction = predictionModelInstance.predict(Date.now());
-        if (prediction.componentId) {
-            this.preloadComponent(prediction.componentId);
-        } else {
+        if (!this.predictionModel) {
+            console.warn('PredictionModel is not attached to ComponentPreloader');
+            return;
+        }
+        const candidates = this.predictionModel.predictTopK(this.maxCandidates, Date.now());
+        if (!candidates.some(c => c.componentId)) {
             console.warn('Context error');
+            return;
         }
+        this.preloadCandidates(candidates);
     }
 
-    public preloadComponent(componentId: string): void {
-        if (this.componentCache.has(componentId)) {
+    public preloadCandidates(candidates: PredictionCandidate[]): string[] {
+        const priorities = new Map<string, number>();
+        const prioritize = (componentId: string, priority: number) => {
+            const resources = this.componentTracker.getResources(componentId);
+            if (!this.loaders.has(componentId) && !resources.length) return;
+            if ((!this.loaders.has(componentId) || this.isPreloaded(componentId)) && this.prefetcher.isWarm(resources)) return;
+            if (this.componentTracker.getComponentState(componentId) === 'mounted') return;
+            priorities.set(componentId, Math.max(priorities.get(componentId) ?? 0, priority));
+        };
+
+        for (const candidate of candidates.slice(0, this.maxCandidates)) {
+            const associations = this.componentTracker.getComponentsByAction(candidate.action);
+            if (!associations.length && candidate.componentId) {
+                associations.push({ componentId: candidate.componentId, weight: 1 });
+            }
+            const totalWeight = associations.reduce((sum, association) => sum + association.weight, 0);
+
+            for (const { componentId, weight } of associations) {
+                const probability = candidate.probability * weight / totalWeight;
+                if (probability < this.probabilityThreshold) continue;
+                prioritize(componentId, probability);
+                if (this.preloadChildren) {
+                    this.componentTracker.getChildren(componentId, true).forEach(childId => prioritize(childId, probability));
+                }
+            }
+        }
+
+        const tasks: PreloadTask[] = Array.from(priorities, ([componentId, priority]) => ({
+            id: componentId,
+            priority,
+            run: (signal) => this.warmComponent(componentId, signal),
+        }));
+        return this.scheduler.schedule(tasks);
+    }
+
+    public preloadComponent(componentId: string): Promise<any> | null {
+        const resources = this.prefetcher.prefetch(this.componentTracker.getResources(componentId));
+        const promise = this.loaders.has(componentId) || !resources.length ? this.loadComponent(componentId, true) : null;
+        if ((promise || resources.length) && this.preloadChildren) {
+            for (const childId of this.componentTracker.getChildren(componentId, true)) {
+                this.prefetcher.prefetch(this.componentTracker.getResources(childId));
+                if (this.loaders.has(childId) && !this.componentCache.has(childId)) {
+                    this.loadComponent(childId, true);
+                }
+            }
+        }
+        return promise;
+    }
+
+    private warmComponent(componentId: string, signal: AbortSignal): Promise<unknown> | null {
+        const code = this.loaders.has(componentId) ? this.loadComponent(componentId, true, signal) : null;
+        const resources = this.prefetcher.prefetch(this.componentTracker.getResources(componentId), signal);
+        if (!code && !resources.length) return null;
+        return Promise.all([code, ...resources]);
+    }
+
+    private loadComponent(componentId: string, speculative: boolean, signal?: AbortSignal): Promise<any> | null {
+        const cached = this.componentCache.peek(componentId);
+        if (cached) {
             console.log(`Компонент ${componentId} уже предзагружен и находится в кэше.`);
-            return;
+            return cached.promise;
         }
 
-        const componentData = this.componentTracker.getTrackedComponents().find(c => c.id === componentId);
-        if (componentData) {
-            this.componentCache.set(componentId, componentData);
-            console.log(`Компонент ${componentData.id} типа ${componentData.type} предзагружен и сохранен в кэш.`);
-        } else {
-            console.warn(`Компонент с id '${componentId}' не найден для предзагрузки.`);
+        const loader = this.loaders.get(componentId);
+        if (!loader) {
+            console.warn(`Загрузчик для компонента с id '${componentId}' не зарегистрирован.`);
+            return null;
         }
+
+        const componentData = this.componentTracker.getComponent(componentId);
+        const startedAt = Date.now();
+        const entry: CacheEntry = { promise: Promise.resolve(), loaded: false, speculative, startedAt };
+        entry.promise = Promise.resolve()
+            .then(() => loader(signal))
+            .then((module) => {
+                entry.module = module;
+                entry.loaded = true;
+                if (this.componentCache.peek(componentId) === entry) {
+                    this.componentCache.setModule(componentId, module);
+                }
+                console.log(`Компонент ${componentId}${componentData ? ` типа ${componentData.type}` : ''} предзагружен и сохранен в кэш.`);
+                this.events.emit('preloadCompleted', { componentId, speculative, durationMs: Date.now() - startedAt });
+                return module;
+            })
+            .catch((error) => {
+                if (this.componentCache.peek(componentId) === entry) {
+                    this.componentCache.delete(componentId);
+                }
+                if (!signal?.aborted) {
+                    console.error(`Ошибка предзагрузки компонента '${componentId}':`, error);
+                    this.events.emit('preloadFailed', { componentId, speculative, error });
+                }
+                throw error;
+            });
+        // Callers that only trigger a preload never await it; keep the rejection from going unhandled.
+        entry.promise.catch(() => undefined);
+
+        this.componentCache.set(componentId, entry);
+        if (speculative) {
+            this.metrics.recordPreloadStarted(componentId, startedAt);
+        }
+        this.events.emit('preloadStarted', { componentId, speculative });
+        return entry.promise;
+    }
+
+    public getPreloaded<T = any>(componentId: string): Promise<T> | null {
+        const cached = this.componentCache.get(componentId);
+        this.metrics.recordCacheLookup(componentId, !!cached, Date.now(), cached?.speculative ? cached.startedAt : undefined);
+        if (cached) {
+            this.scheduler.release(componentId);
+            return cached.promise;
+        }
+        this.scheduler.cancel(componentId);
+        return this.loadComponent(componentId, false);
+    }
+
+    public isPreloaded(componentId: string): boolean {
+        return this.componentCache.peek(componentId)?.loaded ?? false;
     }
 }
 
-export default ComponentPreloader; 
\ No newline at end of file
+export default ComponentPreloader;
@@ -0,0 +1,43 @@
+import ComponentTracker from './componentTracker';
+import EventBus from './eventBus';
+
+describe('ComponentTracker lifecycle', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stays mounted until every instance of a component unmounts', () => {
+        const events = new EventBus();
+        const tracker = new ComponentTracker(events);
+        const lifecycle: string[] = [];
+        events.on('componentMounted', () => lifecycle.push('mounted'));
+        events.on('componentUnmounted', () => lifecycle.push('unmounted'));
+        tracker.trackComponent('cart', 'widget');
+
+        tracker.mountComponent('cart');
+        tracker.mountComponent('cart');
+        tracker.unmountComponent('cart');
+        expect(tracker.getComponentState('cart')).toBe('mounted');
+
+        tracker.unmountComponent('cart');
+        expect(tracker.getComponentState('cart')).toBe('unmounted');
+        expect(lifecycle).toEqual(['mounted', 'unmounted']);
+    });
+
+    it('starts counting afresh when a component is tracked again', () => {
+        const tracker = new ComponentTracker(new EventBus());
+        tracker.trackComponent('cart', 'widget');
+        tracker.mountComponent('cart');
+        tracker.mountComponent('cart');
+        tracker.untrackComponent('cart');
+
+        tracker.trackComponent('cart', 'widget');
+        tracker.mountComponent('cart');
+        tracker.unmountComponent('cart');
+        expect(tracker.getComponentState('cart')).toBe('unmounted');
+    });
+});
@@ -1,20 +1,40 @@
 //componentTracker.ts
-interface ComponentData {
+import EventBus from './eventBus';
+import { PrefetchResource } from './resourcePrefetcher';
+
+export type ComponentLifecycle = 'registered' | 'mounted' | 'unmounted';
+
+export interface ComponentData {
     id: string;
     type: string;
     metadata?: Record<string, any>;
+    state: ComponentLifecycle;
+    parentId?: string;
+    resources?: PrefetchResource[];
 }
 
-type CallbackFunction = (component: ComponentData) => void;
+export interface ComponentAssociation {
+    componentId: string;
+    weight: number;
+}
+
+export interface TrackComponentOptions {
+    parentId?: string;
+    resources?: PrefetchResource[];
+}
 
 class ComponentTracker {
     private static instance: ComponentTracker;
     private trackedComponents: Map<string, ComponentData>;
-    private actionComponentMap: Map<string, string>;
+    private actionComponentMap: Map<string, Map<string, number>>;
+    private mountCounts: Map<string, number>;
+    private events: EventBus;
 
-    private constructor() {
+    constructor(events?: EventBus) {
         this.trackedComponents = new Map();
         this.actionComponentMap = new Map();
+        this.mountCounts = new Map();
+        this.events = events ?? EventBus.getInstance();
     }
 
     public static getInstance(): ComponentTracker {
@@ -24,36 +44,186 @@ class ComponentTracker {
         return ComponentTracker.instance;
     }
 
-    public trackComponent(id: string, type: string, metadata?: Record<string, any>): void {
-        if (this.trackedComponents.has(id)) {
-            console.warn(`Component with id '${id}' is already being tracked.`);
+    public trackComponent(id: string, type: string, metadata?: Record<string, any>, options: TrackComponentOptions = {}): void {
+        const existing = this.trackedComponents.get(id);
+        if (existing) {
+            if (existing.type !== type) {
+                console.warn(`Component with id '${id}' is already being tracked with type '${existing.type}'.`);
+                return;
+            }
+            if (metadata) {
+                existing.metadata = { ...existing.metadata, ...metadata };
+            }
+            if (options.parentId !== undefined) {
+                this.setParent(id, options.parentId);
+            }
+            if (options.resources) {
+                existing.resources = options.resources;
+            }
             return;
         }
 
-        const componentData: ComponentData = { id, type, metadata };
+        const componentData: ComponentData = { id, type, metadata, state: 'registered', resources: options.resources };
         this.trackedComponents.set(id, componentData);
+        if (options.parentId !== undefined) {
+            this.setParent(id, options.parentId);
+        }
         console.log(`Component '${id}' of type '${type}' has been tracked.`);
+        this.events.emit('componentTracked', { componentId: id, type, metadata });
+    }
+
+    public untrackComponent(id: string): void {
+        if (!this.trackedComponents.delete(id)) {
+            console.warn(`Компонент с id '${id}' не отслеживается.`);
+            return;
+        }
+
+        this.mountCounts.delete(id);
+        this.trackedComponents.forEach((component) => {
+            if (component.parentId === id) {
+                delete component.parentId;
+            }
+        });
+        this.actionComponentMap.forEach((components, actionType) => {
+            components.delete(id);
+            if (!components.size) {
+                this.actionComponentMap.delete(actionType);
+            }
+        });
+        this.events.emit('componentUntracked', { componentId: id });
+    }
+
+    public isTracked(id: string): boolean {
+        return this.trackedComponents.has(id);
+    }
+
+    // The same id can be rendered in several places at once, so it stays mounted until its last instance unmounts.
+    public mountComponent(id: string): void {
+        if (!this.trackedComponents.has(id)) {
+            console.warn(`Компонент с id '${id}' не отслеживается.`);
+            return;
+        }
+        this.mountCounts.set(id, (this.mountCounts.get(id) ?? 0) + 1);
+        this.setState(id, 'mounted');
+    }
+
+    public unmountComponent(id: string): void {
+        const count = this.mountCounts.get(id) ?? 0;
+        if (count > 1) {
+            this.mountCounts.set(id, count - 1);
+            return;
+        }
+        this.mountCounts.delete(id);
+        this.setState(id, 'unmounted');
+    }
+
+    public getComponentState(id: string): ComponentLifecycle | null {
+        return this.trackedComponents.get(id)?.state ?? null;
+    }
+
+    public setParent(id: string, parentId: string | null): void {
+        const component = this.trackedComponents.get(id);
+        if (!component) {
+            console.warn(`Компонент с id '${id}' не отслеживается.`);
+            return;
+        }
+        if (parentId === null) {
+            delete component.parentId;
+            return;
+        }
+        for (let ancestor: string | undefined = parentId; ancestor; ancestor = this.trackedComponents.get(ancestor)?.parentId) {
+            if (ancestor === id) {
+                console.warn(`Компонент '${parentId}' не может быть родителем '${id}': получится цикл.`);
+                return;
+            }
+        }
+        component.parentId = parentId;
+    }
+
+    public setResources(id: string, resources: PrefetchResource[]): void {
+        const component = this.trackedComponents.get(id);
+        if (!component) {
+            console.warn(`Компонент с id '${id}' не отслеживается.`);
+            return;
+        }
+        component.resources = resources;
+    }
+
+    public getResources(id: string): PrefetchResource[] {
+        return this.trackedComponents.get(id)?.resources ?? [];
+    }
+
+    public getParent(id: string): string | null {
+        return this.trackedComponents.get(id)?.parentId ?? null;
     }
 
-    public associateActionWithComponent(actionType: string, componentId: string): void {
+    public getChildren(id: string, recursive: boolean = false): string[] {
+        const children = Array.from(this.trackedComponents.values())
+            .filter(component => component.parentId === id)
+            .map(component => component.id);
+        if (!recursive) return children;
+        return children.flatMap(childId => [childId, ...this.getChildren(childId, true)]);
+    }
+
+    public associateActionWithComponent(actionType: string, componentId: string, weight: number = 1): void {
         if (!this.trackedComponents.has(componentId)) {
             console.warn(`Компонент с id '${componentId}' не отслеживается.`);
             return;
         }
+        if (!(weight > 0)) {
+            console.warn(`Вес связи действия '${actionType}' с компонентом '${componentId}' должен быть положительным.`);
+            return;
+        }
 
-        this.actionComponentMap.set(actionType, componentId);
-        console.log(`Действие '${actionType}' связано с компонентом '${componentId}'.`);
+        if (!this.actionComponentMap.has(actionType)) {
+            this.actionComponentMap.set(actionType, new Map());
+        }
+        this.actionComponentMap.get(actionType)!.set(componentId, weight);
+        console.log(`Действие '${actionType}' связано с компонентом '${componentId}' (вес ${weight}).`);
+    }
+
+    public dissociateAction(actionType: string, componentId?: string): void {
+        const components = this.actionComponentMap.get(actionType);
+        if (!components) return;
+        if (componentId === undefined) {
+            this.actionComponentMap.delete(actionType);
+            return;
+        }
+        components.delete(componentId);
+        if (!components.size) {
+            this.actionComponentMap.delete(actionType);
+        }
+    }
+
+    public getComponentsByAction(actionType: string): ComponentAssociation[] {
+        const components = this.actionComponentMap.get(actionType);
+        if (!components) return [];
+        return Array.from(components, ([componentId, weight]) => ({ componentId, weight }))
+            .sort((a, b) => b.weight - a.weight);
     }
 
     public getComponentByAction(actionType: string): string | null {
-        const componentId = this.actionComponentMap.get(actionType) || null;
-        console.log(`Получен компонент для действия '${actionType}': ${componentId}`);
-        return componentId;
+        return this.getComponentsByAction(actionType)[0]?.componentId ?? null;
     }
 
-    public getTrackedComponents() {
+    public getTrackedComponents(): ComponentData[] {
         return Array.from(this.trackedComponents.values());
     }
+
+    public getComponent(id: string): ComponentData | null {
+        return this.trackedComponents.get(id) ?? null;
+    }
+
+    private setState(id: string, state: ComponentLifecycle): void {
+        const component = this.trackedComponents.get(id);
+        if (!component) {
+            console.warn(`Компонент с id '${id}' не отслеживается.`);
+            return;
+        }
+        if (component.state === state) return;
+        component.state = state;
+        this.events.emit(state === 'mounted' ? 'componentMounted' : 'componentUnmounted', { componentId: id });
+    }
 }
 
-export default ComponentTracker;
\ No newline at end of file
+export default ComponentTracker;
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment jsdom
+ */
+import ConsentManager from './consentManager';
+
+const STORAGE_KEY = 'predict_library_consent';
+
+describe('ConsentManager', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        localStorage.clear();
+        jest.restoreAllMocks();
+    });
+
+    it('prefers the stored state over the initial one', () => {
+        localStorage.setItem(STORAGE_KEY, 'denied');
+        expect(new ConsentManager({ initialState: 'granted' }).getState()).toBe('denied');
+    });
+
+    it('ignores stored values that are not consent states', () => {
+        localStorage.setItem(STORAGE_KEY, 'yes');
+        expect(new ConsentManager({ initialState: 'granted' }).getState()).toBe('granted');
+        expect(new ConsentManager().getState()).toBe('unknown');
+    });
+
+    it('persists decisions and forgets them on reset', () => {
+        const consent = new ConsentManager();
+
+        consent.grant();
+        expect(consent.isGranted()).toBe(true);
+        expect(localStorage.getItem(STORAGE_KEY)).toBe('granted');
+
+        consent.deny();
+        expect(localStorage.getItem(STORAGE_KEY)).toBe('denied');
+
+        consent.reset();
+        expect(consent.getState()).toBe('unknown');
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('keeps nothing in localStorage without a storage key', () => {
+        localStorage.setItem(STORAGE_KEY, 'denied');
+        const consent = new ConsentManager({ storageKey: null });
+
+        expect(consent.getState()).toBe('unknown');
+        consent.grant();
+        expect(localStorage.getItem(STORAGE_KEY)).toBe('denied');
+    });
+
+    it('notifies listeners of real changes until they are disposed', () => {
+        const consent = new ConsentManager({ storageKey: null });
+        const changes: string[] = [];
+        const dispose = consent.onChange((state, previous) => changes.push(`${previous}->${state}`));
+
+        consent.grant();
+        consent.grant();
+        consent.deny();
+        dispose();
+        consent.reset();
+
+        expect(changes).toEqual(['unknown->granted', 'granted->denied']);
+    });
+});
@@ -0,0 +1,86 @@
+//consentManager.ts
+import { Disposer } from './eventBus';
+
+export type ConsentState = 'unknown' | 'granted' | 'denied';
+
+export interface ConsentManagerOptions {
+    initialState?: ConsentState;
+    storageKey?: string | null;
+}
+
+type ConsentCallback = (state: ConsentState, previous: ConsentState) => void;
+
+const CONSENT_STATES: ConsentState[] = ['unknown', 'granted', 'denied'];
+
+class ConsentManager {
+    private static instance: ConsentManager;
+    private state: ConsentState;
+    private storageKey: string | null;
+    private callbacks: ConsentCallback[];
+
+    constructor(options: ConsentManagerOptions = {}) {
+        this.storageKey = options.storageKey === undefined ? 'predict_library_consent' : options.storageKey;
+        this.callbacks = [];
+        this.state = this.loadState() ?? options.initialState ?? 'unknown';
+    }
+
+    public static getInstance(): ConsentManager {
+        if (!ConsentManager.instance) {
+            ConsentManager.instance = new ConsentManager();
+        }
+        return ConsentManager.instance;
+    }
+
+    private loadState(): ConsentState | null {
+        if (!this.storageKey || typeof localStorage === 'undefined') return null;
+        const stored = localStorage.getItem(this.storageKey) as ConsentState | null;
+        return stored && CONSENT_STATES.includes(stored) ? stored : null;
+    }
+
+    private persistState(): void {
+        if (!this.storageKey || typeof localStorage === 'undefined') return;
+        if (this.state === 'unknown') {
+            localStorage.removeItem(this.storageKey);
+        } else {
+            localStorage.setItem(this.storageKey, this.state);
+        }
+    }
+
+    public getState(): ConsentState {
+        return this.state;
+    }
+
+    public isGranted(): boolean {
+        return this.state === 'granted';
+    }
+
+    public grant(): void {
+        this.setState('granted');
+    }
+
+    public deny(): void {
+        this.setState('denied');
+    }
+
+    public reset(): void {
+        this.setState('unknown');
+    }
+
+    public onChange(callback: ConsentCallback): Disposer {
+        this.callbacks.push(callback);
+        return () => {
+            this.callbacks = this.callbacks.filter(existing => existing !== callback);
+        };
+    }
+
+    private setState(state: ConsentState): void {
+        const previous = this.state;
+        if (previous === state) return;
+        this.state = state;
+        this.persistState();
+        console.log(`Consent changed from '${previous}' to '${state}'`);
+        this.callbacks.forEach(callback => callback(state, previous));
+    }
+}
+
+export default ConsentManager;
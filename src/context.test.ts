@@ -0,0 +1,29 @@
+/**
+ * @jest-environment jsdom
+ */
+import { detectDeviceType, getContextKeys } from './context';
+
+describe('context helpers', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keeps non-empty string values of the allowed keys in a stable order', () => {
+        const context = { route: '/cart', device: 'mobile', empty: '', count: 3 as unknown as string };
+
+        expect(getContextKeys(context)).toEqual([['device', 'mobile'], ['route', '/cart']]);
+        expect(getContextKeys(context, ['route'])).toEqual([['route', '/cart']]);
+        expect(getContextKeys(undefined)).toEqual([]);
+    });
+
+    it.each([
+        ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148', 'mobile'],
+        ['Mozilla/5.0 (Linux; Android 14; Pixel 8) Mobile Safari/537.36', 'mobile'],
+        ['Mozilla/5.0 (Linux; Android 13; SM-X200) Safari/537.36', 'tablet'],
+        ['Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)', 'tablet'],
+        ['Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0', 'desktop'],
+    ])('detects the device type of %s', (userAgent, deviceType) => {
+        jest.spyOn(navigator, 'userAgent', 'get').mockReturnValue(userAgent);
+        expect(detectDeviceType()).toBe(deviceType);
+    });
+});
@@ -0,0 +1,22 @@
+//context.ts
+export type InteractionContext = Record<string, string>;
+
+export interface ContextOptions {
+    keys?: string[];
+    prior?: number;
+}
+
+export function detectDeviceType(): string | undefined {
+    if (typeof navigator === 'undefined' || !navigator.userAgent) return undefined;
+    const userAgent = navigator.userAgent;
+    if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i.test(userAgent)) return 'tablet';
+    if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) return 'mobile';
+    return 'desktop';
+}
+
+export function getContextKeys(context: InteractionContext | undefined, keys?: string[]): Array<[string, string]> {
+    if (!context) return [];
+    return Object.entries(context)
+        .filter(([key, value]) => typeof value === 'string' && value !== '' && (!keys || keys.includes(key)))
+        .sort(([a], [b]) => a.localeCompare(b));
+}
@@ -0,0 +1,199 @@
+import ComponentTracker from './componentTracker';
+import ComponentPreloader from './componentPreloader';
+import DatabaseManager, { RetentionPolicy, createDefaultStorageAdapter } from './databaseManager';
+import InteractionTracker from './interactionTracker';
+import PredictionModel, { ModelHyperparameters, UserDataExport } from './predictionModel';
+import { Predictor, PredictorFactory } from './predictor';
+import { TemporalOptions } from './temporal';
+import { ContextOptions, InteractionContext } from './context';
+import EventBus from './eventBus';
+import AutoCapture, { AutoCaptureOptions } from './autoCapture';
+import NavigationTracker, { NavigationTrackerOptions } from './navigationTracker';
+import { PreloadSchedulerOptions } from './preloadScheduler';
+import { PreloadCacheOptions } from './preloadCache';
+import ResourcePrefetcher, { ResourcePrefetcherOptions } from './resourcePrefetcher';
+import { KeyProvider, createStaticKeyProvider } from './keyProvider';
+import { StorageAdapter } from './storageAdapter';
+import IndexedDBStorageAdapter from './indexedDBStorageAdapter';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+import SessionManager, { SessionManagerOptions } from './sessionManager';
+import UploadQueue, { UploadQueueOptions } from './uploadQueue';
+import { PrivacyOptions } from './privacy';
+import ConsentManager, { ConsentManagerOptions } from './consentManager';
+import MetricsCollector, { MetricsCallback, MetricsOptions, MetricsSnapshot } from './metricsCollector';
+
+export type StorageConfig = StorageAdapter | 'indexeddb' | 'memory';
+
+export interface PredictiveLibraryConfig {
+    serverUrl?: string | null;
+    encryptionKey?: string;
+    keyProvider?: KeyProvider;
+    previousKeyProviders?: KeyProvider[];
+    storage?: StorageConfig;
+    retention?: RetentionPolicy;
+    session?: SessionManagerOptions;
+    upload?: UploadQueueOptions;
+    privacy?: PrivacyOptions;
+    consent?: ConsentManagerOptions;
+    metrics?: MetricsOptions & {
+        onReport?: MetricsCallback;
+        reportIntervalMs?: number;
+    };
+    model?: ModelHyperparameters;
+    predictor?: Predictor | PredictorFactory;
+    temporal?: TemporalOptions;
+    context?: ContextOptions & {
+        defaults?: InteractionContext;
+    };
+    preload?: {
+        probabilityThreshold?: number;
+        maxCandidates?: number;
+        preloadChildren?: boolean;
+        scheduler?: PreloadSchedulerOptions;
+        cache?: PreloadCacheOptions;
+        prefetch?: ResourcePrefetcherOptions;
+    };
+    autoCapture?: boolean | AutoCaptureOptions;
+    navigation?: Omit<NavigationTrackerOptions, 'interactionTracker' | 'componentTracker' | 'preloader' | 'model'> & {
+        history?: boolean;
+    };
+    autoInitialize?: boolean;
+}
+
+export interface PredictiveLibrary {
+    componentTracker: ComponentTracker;
+    interactionTracker: InteractionTracker;
+    preloader: ComponentPreloader;
+    prefetcher: ResourcePrefetcher;
+    model: PredictionModel;
+    databaseManager: DatabaseManager;
+    sessionManager: SessionManager;
+    consentManager: ConsentManager;
+    metrics: MetricsCollector;
+    events: EventBus;
+    autoCapture: AutoCapture | null;
+    navigation: NavigationTracker | null;
+    initialize(): Promise<void>;
+    rotateKey(keyProvider: KeyProvider): Promise<void>;
+    exportUserData(): Promise<UserDataExport>;
+    eraseUserData(): Promise<void>;
+    getMetrics(): MetricsSnapshot;
+    dispose(): void;
+}
+
+function resolveStorage(storage?: StorageConfig): StorageAdapter {
+    if (!storage) return createDefaultStorageAdapter();
+    if (storage === 'indexeddb') return new IndexedDBStorageAdapter();
+    if (storage === 'memory') return new MemoryStorageAdapter();
+    return storage;
+}
+
+function resolveKeyProvider(config: PredictiveLibraryConfig): KeyProvider {
+    if (config.keyProvider) return config.keyProvider;
+    if (config.encryptionKey) return createStaticKeyProvider(config.encryptionKey);
+    throw new Error('createPredictiveLibrary requires either an encryptionKey or a keyProvider');
+}
+
+export function createPredictiveLibrary(config: PredictiveLibraryConfig = {}): PredictiveLibrary {
+    const keyProvider = resolveKeyProvider(config);
+    const events = new EventBus();
+    const databaseManager = new DatabaseManager(resolveStorage(config.storage), keyProvider, config.previousKeyProviders);
+    const consentManager = new ConsentManager(config.consent);
+    databaseManager.setConsentManager(consentManager);
+    databaseManager.setEventBus(events);
+    if (config.retention) {
+        databaseManager.setRetentionPolicy(config.retention);
+    }
+    const componentTracker = new ComponentTracker(events);
+    const sessionManager = new SessionManager(config.session);
+    const metrics = new MetricsCollector(config.metrics);
+    if (config.metrics?.onReport) {
+        metrics.startReporting(config.metrics.onReport, config.metrics.reportIntervalMs);
+    }
+    const preloader = new ComponentPreloader({
+        componentTracker,
+        metrics,
+        events,
+        probabilityThreshold: config.preload?.probabilityThreshold,
+        maxCandidates: config.preload?.maxCandidates,
+        preloadChildren: config.preload?.preloadChildren,
+        scheduler: config.preload?.scheduler,
+        cache: config.preload?.cache,
+        prefetch: config.preload?.prefetch,
+    });
+    const uploadQueue = config.serverUrl
+        ? new UploadQueue(config.serverUrl, databaseManager.getStorageAdapter(), { ...config.upload, events })
+        : undefined;
+    const model = new PredictionModel({
+        ...config.model,
+        predictor: config.predictor,
+        temporal: config.temporal,
+        context: config.context,
+        serverUrl: config.serverUrl ?? null,
+        databaseManager,
+        componentTracker,
+        preloader,
+        keyProvider,
+        sessionManager,
+        uploadQueue,
+        privacy: config.privacy,
+        consentManager,
+        metrics,
+        events,
+    });
+    const interactionTracker = new InteractionTracker(
+        componentTracker,
+        databaseManager,
+        sessionManager,
+        consentManager,
+        events,
+        model.getTimezone()
+    );
+    if (config.context?.defaults) {
+        interactionTracker.setDefaultContext(config.context.defaults);
+    }
+    const autoCapture = config.autoCapture
+        ? new AutoCapture(interactionTracker, componentTracker, config.autoCapture === true ? {} : config.autoCapture)
+        : null;
+    autoCapture?.start();
+    const navigation = config.navigation
+        ? new NavigationTracker({ ...config.navigation, interactionTracker, componentTracker, preloader, model })
+        : null;
+    if (navigation && config.navigation?.history !== false) {
+        navigation.start();
+    }
+
+    const library: PredictiveLibrary = {
+        componentTracker,
+        interactionTracker,
+        preloader,
+        prefetcher: preloader.getPrefetcher(),
+        model,
+        databaseManager,
+        sessionManager,
+        consentManager,
+        metrics,
+        events,
+        autoCapture,
+        navigation,
+        initialize: () => model.initialize(),
+        rotateKey: (nextKeyProvider) => databaseManager.rotateKey(nextKeyProvider),
+        exportUserData: () => model.exportUserData(),
+        eraseUserData: () => model.eraseUserData(),
+        getMetrics: () => metrics.getMetrics(),
+        dispose: () => {
+            autoCapture?.stop();
+            navigation?.stop();
+            preloader.cancelScheduled();
+            model.dispose();
+            metrics.stopReporting();
+            events.clear();
+        },
+    };
+
+    if (config.autoInitialize !== false) {
+        library.initialize();
+    }
+
+    return library;
+}
@@ -0,0 +1,124 @@
+import { PredictiveLibrary } from './createPredictiveLibrary';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+import { StorageAdapter, StoredInteraction } from './storageAdapter';
+import { createStaticKeyProvider } from './keyProvider';
+import { createTestLibrary } from './testUtils';
+
+const START = Date.UTC(2024, 0, 1, 9);
+
+function createLibrary(storage: StorageAdapter): PredictiveLibrary {
+    return createTestLibrary({ storage, retention: { maxRecords: 15, checkEvery: 1000 } });
+}
+
+async function record(library: PredictiveLibrary, from: number, to: number): Promise<void> {
+    for (let i = from; i < to; i++) {
+        const actionType = ['home', 'search', 'product'][i % 3];
+        await library.databaseManager.saveInteraction({
+            componentId: actionType,
+            actionType,
+            timestamp: START + i * 60 * 1000,
+            sessionId: 'session',
+        });
+    }
+}
+
+// Behaves like IndexedDB's put(): updating a row that no longer exists writes it back.
+class UpsertingStorageAdapter extends MemoryStorageAdapter {
+    public async updateInteractions(records: StoredInteraction[]): Promise<void> {
+        const existing = new Set((await this.getInteractions()).map(record => record.id));
+        await super.updateInteractions(records);
+        for (const record of records.filter(record => !existing.has(record.id))) {
+            await this.addInteraction(record);
+        }
+    }
+}
+
+describe('DatabaseManager retention', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keeps interactions newer than the latest snapshot when compacting', async () => {
+        const storage = new MemoryStorageAdapter();
+        const library = createLibrary(storage);
+        await record(library, 0, 10);
+        await library.initialize();
+        await record(library, 10, 30);
+
+        const result = await library.databaseManager.enforceRetention();
+        expect(result.compacted).toBe(10);
+        const expected = library.model.predictTopK(3, START + 31 * 60 * 1000);
+        library.dispose();
+
+        const restarted = createLibrary(storage);
+        await restarted.initialize();
+        expect(restarted.model.predictTopK(3, START + 31 * 60 * 1000)).toEqual(expected);
+        restarted.dispose();
+    });
+
+    it('compacts everything the snapshot covers without double counting on restart', async () => {
+        const storage = new MemoryStorageAdapter();
+        const library = createLibrary(storage);
+        await record(library, 0, 30);
+        await library.initialize();
+
+        const result = await library.databaseManager.enforceRetention();
+        expect(result.compacted).toBe(15);
+        expect(await storage.getInteractions()).toHaveLength(15);
+        const expected = library.model.predictTopK(3, START + 31 * 60 * 1000);
+        library.dispose();
+
+        const restarted = createLibrary(storage);
+        await restarted.initialize();
+        expect(restarted.model.predictTopK(3, START + 31 * 60 * 1000)).toEqual(expected);
+        restarted.dispose();
+    });
+});
+
+describe('DatabaseManager key rotation', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('re-encrypts stored interactions, snapshot and aggregates with the new key', async () => {
+        const storage = new MemoryStorageAdapter();
+        const library = createLibrary(storage);
+        await record(library, 0, 30);
+        await library.initialize();
+        await library.databaseManager.enforceRetention();
+
+        const nextKey = createStaticKeyProvider('1'.repeat(64), 'v2');
+        await library.rotateKey(nextKey);
+
+        expect((await storage.getInteractions()).every(stored => stored.keyVersion === 'v2')).toBe(true);
+        expect((await storage.getLatestSnapshot())?.keyVersion).toBe('v2');
+        expect((await storage.getAggregates())?.keyVersion).toBe('v2');
+        const interactions = await library.databaseManager.getAllInteractions();
+        expect(interactions.map(interaction => interaction.actionType)).toEqual(
+            Array.from({ length: 15 }, (_, i) => ['home', 'search', 'product'][(i + 15) % 3])
+        );
+        library.dispose();
+    });
+
+    it('does not resurrect interactions that retention removes during a rotation', async () => {
+        const storage = new UpsertingStorageAdapter();
+        const library = createLibrary(storage);
+        await record(library, 0, 30);
+        await library.initialize();
+
+        const nextKey = createStaticKeyProvider('1'.repeat(64), 'v2');
+        await Promise.all([library.rotateKey(nextKey), library.databaseManager.enforceRetention()]);
+
+        const aggregates = await library.databaseManager.getAggregates();
+        expect((await storage.getInteractions()).length + (aggregates?.totalCount ?? 0)).toBe(30);
+        library.dispose();
+    });
+});
@@ -1,55 +1,192 @@
+import { InteractionCursor, StorageAdapter, StoredInteraction } from './storageAdapter';
+import IndexedDBStorageAdapter from './indexedDBStorageAdapter';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+import { KeyProvider, createEnvironmentKeyProvider } from './keyProvider';
+import { toBase64, fromBase64 } from './encoding';
+import ConsentManager from './consentManager';
+import { getLocalTime } from './temporal';
+import { InteractionContext } from './context';
+import EventBus, { Disposer } from './eventBus';
+
 export interface InteractionRecord {
   componentId: string;
   actionType: string;
   timestamp: number;
+  sessionId?: string;
+  timezone?: string;
+  context?: InteractionContext;
+}
+
+export interface ModelSnapshot<T = unknown> {
+  version: number;
+  createdAt: number;
+  lastTimestamp: number;
+  state: T;
+}
+
+export interface InteractionQuery {
+  from?: number;
+  to?: number;
+  componentId?: string;
+  order?: 'newest' | 'oldest';
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface InteractionPage {
+  interactions: InteractionRecord[];
+  nextCursor: string | null;
+}
+
+export interface RetentionPolicy {
+  maxRecords?: number;
+  maxAgeMs?: number;
+  maxStorageBytes?: number;
+  compact?: boolean;
+  checkEvery?: number;
+}
+
+export interface InteractionAggregates {
+  totalCount: number;
+  firstTimestamp: number | null;
+  lastTimestamp: number | null;
+  lastAction: string | null;
+  lastSessionId?: string | null;
+  actionCounts: Record<string, number>;
+  hourCounts: Record<string, Record<number, number>>;
+  weekHourCounts?: Record<string, Record<number, number>>;
+  transitions: Record<string, Record<string, number>>;
+  sessionStarts?: Record<string, number>;
+  actionComponents: Record<string, string>;
+}
+
+export interface StoredDataExport {
+  interactions: InteractionRecord[];
+  aggregates: InteractionAggregates | null;
+  snapshot: ModelSnapshot | null;
+}
+
+export interface RetentionResult {
+  removed: number;
+  compacted: number;
 }
 
 type InteractionCallback = (interaction: InteractionRecord) => void;
 
-const ENCRYPTION_KEY_HEX = process.env.ENCRYPTION_KEY;
-if (!ENCRYPTION_KEY_HEX) {
-  throw new Error('ENCRYPTION_KEY is not defined in .env or build configuration');
+const REENCRYPTION_BATCH_SIZE = 100;
+
+function createEmptyAggregates(): InteractionAggregates {
+  return {
+    totalCount: 0,
+    firstTimestamp: null,
+    lastTimestamp: null,
+    lastAction: null,
+    lastSessionId: null,
+    actionCounts: {},
+    hourCounts: {},
+    weekHourCounts: {},
+    transitions: {},
+    sessionStarts: {},
+    actionComponents: {},
+  };
+}
+
+function encodeCursor(record: StoredInteraction): string {
+  return `${record.timestamp}:${record.id}`;
+}
+
+function decodeCursor(cursor: string): InteractionCursor {
+  const [timestamp, id] = cursor.split(':').map(Number);
+  if (!Number.isFinite(timestamp) || !Number.isFinite(id)) {
+    throw new Error(`Invalid interaction cursor: "${cursor}"`);
+  }
+  return { timestamp, id };
+}
+
+function estimateRecordSize(record: StoredInteraction): number {
+  return JSON.stringify(record).length * 2;
 }
-if (ENCRYPTION_KEY_HEX.length !== 64 || !/^[0-9a-fA-F]{64}$/.test(ENCRYPTION_KEY_HEX)) {
-  throw new Error(`ENCRYPTION_KEY must be a 64-character hexadecimal string. Got: "${ENCRYPTION_KEY_HEX}"`);
+
+export function createDefaultStorageAdapter(): StorageAdapter {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available, interactions will be kept in memory only');
+    return new MemoryStorageAdapter();
+  }
+  return new IndexedDBStorageAdapter({ fallback: new MemoryStorageAdapter() });
 }
-const ENCRYPTION_KEY = new Uint8Array(
-  ENCRYPTION_KEY_HEX.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-);
 
 class DatabaseManager {
   private static instance: DatabaseManager;
-  private dbName: string;
-  private storeName: string;
+  private adapter: StorageAdapter;
+  private keyProvider: KeyProvider;
+  private keyring: Map<string, KeyProvider>;
+  private componentHashCache: Map<string, string>;
+  private rotation: Promise<void> | null;
+  private retentionPolicy: RetentionPolicy | null;
+  private retentionRun: Promise<RetentionResult> | null;
+  private writesSinceRetention: number;
   private interactionSavedCallbacks: InteractionCallback[];
-
-  private constructor(dbName = 'PredictLibraryDB', storeName = 'Interactions') {
-    this.dbName = dbName;
-    this.storeName = storeName;
+  private consentManager: ConsentManager | null;
+  private events: EventBus;
+
+  constructor(adapter: StorageAdapter, keyProvider: KeyProvider, previousKeyProviders: KeyProvider[] = []) {
+    this.adapter = adapter;
+    this.keyProvider = keyProvider;
+    this.keyring = new Map(previousKeyProviders.map(provider => [provider.version, provider]));
+    this.keyring.set(keyProvider.version, keyProvider);
+    this.componentHashCache = new Map();
+    this.rotation = null;
+    this.retentionPolicy = null;
+    this.retentionRun = null;
+    this.writesSinceRetention = 0;
     this.interactionSavedCallbacks = [];
-    this.initializeDatabase();
+    this.consentManager = null;
+    this.events = EventBus.getInstance();
   }
 
   public static getInstance(): DatabaseManager {
     if (!DatabaseManager.instance) {
-      DatabaseManager.instance = new DatabaseManager();
+      DatabaseManager.instance = new DatabaseManager(createDefaultStorageAdapter(), createEnvironmentKeyProvider());
     }
     return DatabaseManager.instance;
   }
 
-  private async getCryptoKey(): Promise<CryptoKey> {
-    return await crypto.subtle.importKey(
-      'raw',
-      ENCRYPTION_KEY,
-      { name: 'AES-GCM' },
-      false,
-      ['encrypt', 'decrypt']
-    );
+  public setStorageAdapter(adapter: StorageAdapter): void {
+    this.adapter = adapter;
+  }
+
+  public getStorageAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  public setConsentManager(consentManager: ConsentManager | null): void {
+    this.consentManager = consentManager;
+  }
+
+  public setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
+  private canStore(): boolean {
+    return !this.consentManager || this.consentManager.isGranted();
+  }
+
+  public setRetentionPolicy(policy: RetentionPolicy | null): void {
+    this.retentionPolicy = policy;
+    this.writesSinceRetention = 0;
+  }
+
+  public getKeyVersion(): string {
+    return this.keyProvider.version;
+  }
+
+  public addKeyProvider(provider: KeyProvider): void {
+    this.keyring.set(provider.version, provider);
   }
 
-  private async encrypt(data: string): Promise<{ ciphertext: string; iv: string }> {
+  private async encrypt(data: string, provider: KeyProvider = this.keyProvider): Promise<{ ciphertext: string; iv: string }> {
     const iv = crypto.getRandomValues(new Uint8Array(12));
-    const key = await this.getCryptoKey();
+    const key = await provider.getKey();
     const encodedData = new TextEncoder().encode(data);
     const ciphertext = await crypto.subtle.encrypt(
       { name: 'AES-GCM', iv },
@@ -57,198 +194,446 @@ class DatabaseManager {
       encodedData
     );
     return {
-      ciphertext: btoa(String.fromCharCode(...new Uint8Array(ciphertext))),
-      iv: btoa(String.fromCharCode(...iv))
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+      iv: toBase64(iv)
     };
   }
 
-  private async decrypt(ciphertext: string, iv: string): Promise<string> {
-    try {
-      const key = await this.getCryptoKey();
-      const ciphertextBytes = Uint8Array.from(atob(ciphertext), c => c.charCodeAt(0));
-      const ivBytes = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv: ivBytes },
-        key,
-        ciphertextBytes
-      );
-      return new TextDecoder().decode(decrypted);
-    } catch (error) {
-      console.error('Decryption error:', error);
-      throw error;
-    }
+  private async decryptWith(provider: KeyProvider, ciphertext: string, iv: string): Promise<string> {
+    const key = await provider.getKey();
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      key,
+      fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(decrypted);
   }
 
-  private initializeDatabase(): void {
-    const request = indexedDB.open(this.dbName, 1);
+  private async decrypt(ciphertext: string, iv: string, keyVersion?: string): Promise<string> {
+    let candidates: KeyProvider[];
+    if (keyVersion) {
+      const provider = this.keyring.get(keyVersion);
+      if (!provider) {
+        const error = new Error(`No key provider registered for key version '${keyVersion}'`);
+        console.error('Decryption error:', error);
+        throw error;
+      }
+      candidates = [provider];
+    } else {
+      // Records written before key versioning carry no tag, so try every known key.
+      candidates = [this.keyProvider, ...Array.from(this.keyring.values()).filter(p => p !== this.keyProvider)];
+    }
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(this.storeName)) {
-        const store = db.createObjectStore(this.storeName, { keyPath: 'id', autoIncrement: true });
-        store.createIndex('componentId', 'componentId', { unique: false });
+    let lastError: unknown;
+    for (const provider of candidates) {
+      try {
+        return await this.decryptWith(provider, ciphertext, iv);
+      } catch (error) {
+        lastError = error;
       }
-    };
+    }
+    console.error('Decryption error:', lastError);
+    throw lastError;
+  }
 
-    request.onerror = () => {
-      console.error('Error initializing IndexedDB');
-    };
+  private async hashComponentId(componentId: string, provider: KeyProvider): Promise<string | undefined> {
+    if (!provider.getIndexKey) return undefined;
 
-    request.onsuccess = () => {
-      console.log('IndexedDB initialized successfully');
-    };
+    const cacheKey = `${provider.version}\u0000${componentId}`;
+    const cached = this.componentHashCache.get(cacheKey);
+    if (cached) return cached;
+
+    const indexKey = await provider.getIndexKey();
+    const signature = await crypto.subtle.sign('HMAC', indexKey, new TextEncoder().encode(componentId));
+    const hash = toBase64(new Uint8Array(signature));
+    this.componentHashCache.set(cacheKey, hash);
+    return hash;
   }
 
-  public async saveInteraction(interaction: InteractionRecord): Promise<void> {
-    const encryptedActionType = await this.encrypt(interaction.actionType);
-    const encryptedComponentId = await this.encrypt(interaction.componentId);
-    const encryptedInteraction = {
+  private async encryptRecord(interaction: InteractionRecord, provider: KeyProvider): Promise<StoredInteraction> {
+    const encryptedActionType = await this.encrypt(interaction.actionType, provider);
+    const encryptedComponentId = await this.encrypt(interaction.componentId, provider);
+    const record: StoredInteraction = {
       actionType: encryptedActionType.ciphertext,
       actionTypeIV: encryptedActionType.iv,
       componentId: encryptedComponentId.ciphertext,
       componentIdIV: encryptedComponentId.iv,
       timestamp: interaction.timestamp,
+      keyVersion: provider.version,
     };
+    const componentHash = await this.hashComponentId(interaction.componentId, provider);
+    if (componentHash) {
+      record.componentHash = componentHash;
+    }
+    if (interaction.sessionId) {
+      record.sessionId = interaction.sessionId;
+    }
+    if (interaction.timezone) {
+      record.timezone = interaction.timezone;
+    }
+    if (interaction.context && Object.keys(interaction.context).length) {
+      const encryptedContext = await this.encrypt(JSON.stringify(interaction.context), provider);
+      record.context = encryptedContext.ciphertext;
+      record.contextIV = encryptedContext.iv;
+    }
+    return record;
+  }
 
-    const request = indexedDB.open(this.dbName);
+  public async saveInteraction(interaction: InteractionRecord): Promise<void> {
+    if (!this.canStore()) {
+      console.warn('Interaction not saved: storage consent has not been granted');
+      return;
+    }
+    const encryptedInteraction = await this.encryptRecord(interaction, this.keyProvider);
 
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        const db = request.result;
-        const transaction = db.transaction(this.storeName, 'readwrite');
-        const store = transaction.objectStore(this.storeName);
+    try {
+      await this.adapter.addInteraction(encryptedInteraction);
+    } catch (error) {
+      console.error('Error saving interaction to storage:', error);
+      throw error;
+    }
+    console.log('Encrypted interaction saved to storage:', encryptedInteraction);
+    this.notifyInteractionSaved(interaction);
+    this.scheduleRetention();
+  }
 
-        store.add(encryptedInteraction);
+  private scheduleRetention(): void {
+    if (!this.retentionPolicy) return;
+    this.writesSinceRetention++;
+    if (this.retentionRun || this.writesSinceRetention < (this.retentionPolicy.checkEvery ?? 20)) return;
 
-        transaction.oncomplete = () => {
-          console.log('Encrypted interaction saved to IndexedDB:', encryptedInteraction);
-          this.notifyInteractionSaved(interaction);
-          resolve();
-        };
+    this.enforceRetention().catch((error) => {
+      console.error('Error enforcing retention policy:', error);
+    });
+  }
 
-        transaction.onerror = () => {
-          console.error('Error saving interaction to IndexedDB');
-          reject('Error saving interaction');
-        };
-      };
+  public enforceRetention(): Promise<RetentionResult> {
+    if (!this.retentionRun) {
+      this.writesSinceRetention = 0;
+      const rotation = this.rotation ?? Promise.resolve();
+      this.retentionRun = rotation.catch(() => undefined).then(() => this.applyRetention()).finally(() => {
+        this.retentionRun = null;
+      });
+    }
+    return this.retentionRun;
+  }
 
-      request.onerror = () => {
-        console.error('Error opening IndexedDB for saving interaction');
-        reject('Error opening IndexedDB');
-      };
+  private async applyRetention(): Promise<RetentionResult> {
+    const policy = this.retentionPolicy;
+    if (!policy) return { removed: 0, compacted: 0 };
+
+    const records = (await this.adapter.getInteractions()).sort((a, b) => a.timestamp - b.timestamp);
+    let cutoff = 0;
+
+    if (policy.maxAgeMs !== undefined) {
+      const minTimestamp = Date.now() - policy.maxAgeMs;
+      while (cutoff < records.length && records[cutoff].timestamp < minTimestamp) cutoff++;
+    }
+    if (policy.maxRecords !== undefined) {
+      cutoff = Math.max(cutoff, records.length - policy.maxRecords);
+    }
+    if (policy.maxStorageBytes !== undefined) {
+      let totalBytes = records.slice(cutoff).reduce((sum, record) => sum + estimateRecordSize(record), 0);
+      while (cutoff < records.length && totalBytes > policy.maxStorageBytes) {
+        totalBytes -= estimateRecordSize(records[cutoff]);
+        cutoff++;
+      }
+    }
+
+    // A restored snapshot only replays interactions newer than itself, so anything it has not seen must stay raw.
+    const snapshot = await this.adapter.getLatestSnapshot();
+    if (snapshot) {
+      while (cutoff > 0 && records[cutoff - 1].timestamp > snapshot.lastTimestamp) cutoff--;
+    }
+
+    const expired = records.slice(0, cutoff);
+    if (!expired.length) return { removed: 0, compacted: 0 };
+
+    let compacted = 0;
+    if (policy.compact !== false) {
+      const aggregates = (await this.getAggregates()) ?? createEmptyAggregates();
+      this.foldIntoAggregates(aggregates, await this.decryptRecords(expired));
+      await this.saveAggregates(aggregates);
+      compacted = expired.length;
+    }
+
+    await this.adapter.deleteInteractions(expired.map(record => record.id!).filter(id => id !== undefined));
+    console.log(`Retention policy removed ${expired.length} interactions, compacted ${compacted}`);
+    return { removed: expired.length, compacted };
+  }
+
+  private foldIntoAggregates(aggregates: InteractionAggregates, interactions: InteractionRecord[]): void {
+    for (const interaction of interactions) {
+      const action = interaction.actionType;
+      const local = getLocalTime(interaction.timestamp, interaction.timezone);
+      const hour = local.hour;
+      const weekHour = local.dayOfWeek * 24 + local.hour;
+
+      aggregates.totalCount++;
+      aggregates.actionCounts[action] = (aggregates.actionCounts[action] || 0) + 1;
+      const hours = aggregates.hourCounts[action] ?? (aggregates.hourCounts[action] = {});
+      hours[hour] = (hours[hour] || 0) + 1;
+      const weekHourCounts = aggregates.weekHourCounts ?? (aggregates.weekHourCounts = {});
+      const weekHours = weekHourCounts[action] ?? (weekHourCounts[action] = {});
+      weekHours[weekHour] = (weekHours[weekHour] || 0) + 1;
+      const sessionChanged = interaction.sessionId !== undefined && interaction.sessionId !== aggregates.lastSessionId;
+      if (aggregates.lastAction === null || sessionChanged) {
+        const sessionStarts = aggregates.sessionStarts ?? (aggregates.sessionStarts = {});
+        sessionStarts[action] = (sessionStarts[action] || 0) + 1;
+      } else {
+        const transitions = aggregates.transitions[aggregates.lastAction] ?? (aggregates.transitions[aggregates.lastAction] = {});
+        transitions[action] = (transitions[action] || 0) + 1;
+      }
+      aggregates.actionComponents[action] = interaction.componentId;
+      aggregates.lastAction = action;
+      aggregates.lastSessionId = interaction.sessionId ?? null;
+      aggregates.firstTimestamp = aggregates.firstTimestamp === null
+        ? interaction.timestamp
+        : Math.min(aggregates.firstTimestamp, interaction.timestamp);
+      aggregates.lastTimestamp = Math.max(aggregates.lastTimestamp ?? 0, interaction.timestamp);
+    }
+  }
+
+  private async saveAggregates(aggregates: InteractionAggregates): Promise<void> {
+    const provider = this.keyProvider;
+    const encryptedState = await this.encrypt(JSON.stringify(aggregates), provider);
+    await this.adapter.saveAggregates({
+      updatedAt: Date.now(),
+      state: encryptedState.ciphertext,
+      stateIV: encryptedState.iv,
+      keyVersion: provider.version,
     });
   }
 
+  public async getAggregates(): Promise<InteractionAggregates | null> {
+    const record = await this.adapter.getAggregates();
+    if (!record) return null;
+    return JSON.parse(await this.decrypt(record.state, record.stateIV, record.keyVersion)) as InteractionAggregates;
+  }
+
   private notifyInteractionSaved(interaction: InteractionRecord): void {
     this.interactionSavedCallbacks.forEach((callback) => callback(interaction));
+    this.events.emit('interactionSaved', interaction);
   }
 
-  public onInteractionSaved(callback: InteractionCallback): void {
+  public onInteractionSaved(callback: InteractionCallback): Disposer {
     this.interactionSavedCallbacks.push(callback);
+    return () => {
+      this.interactionSavedCallbacks = this.interactionSavedCallbacks.filter(existing => existing !== callback);
+    };
+  }
+
+  private async decryptRecord(record: StoredInteraction): Promise<InteractionRecord> {
+    const decryptedActionType = await this.decrypt(record.actionType, record.actionTypeIV, record.keyVersion);
+    const decryptedComponentId = await this.decrypt(record.componentId, record.componentIdIV, record.keyVersion);
+    const interaction: InteractionRecord = {
+      actionType: decryptedActionType,
+      componentId: decryptedComponentId,
+      timestamp: record.timestamp,
+    };
+    if (record.sessionId) {
+      interaction.sessionId = record.sessionId;
+    }
+    if (record.timezone) {
+      interaction.timezone = record.timezone;
+    }
+    if (record.context && record.contextIV) {
+      interaction.context = JSON.parse(await this.decrypt(record.context, record.contextIV, record.keyVersion));
+    }
+    return interaction;
+  }
+
+  private async decryptRecords(records: StoredInteraction[]): Promise<InteractionRecord[]> {
+    const decryptedRecords: InteractionRecord[] = [];
+    for (const record of records) {
+      decryptedRecords.push(await this.decryptRecord(record));
+    }
+    return decryptedRecords;
   }
 
   public async getAllInteractions(): Promise<InteractionRecord[]> {
-    return new Promise(async (resolve, reject) => {
-      const request = indexedDB.open(this.dbName);
-
-      request.onsuccess = async () => {
-        const db = request.result;
-        const transaction = db.transaction(this.storeName, 'readonly');
-        const store = transaction.objectStore(this.storeName);
-        const getRequest = store.getAll();
-
-        getRequest.onsuccess = async () => {
-          const encryptedRecords = getRequest.result as any[];
-          const decryptedRecords: InteractionRecord[] = [];
-
-          for (const record of encryptedRecords) {
-            const decryptedActionType = await this.decrypt(record.actionType, record.actionTypeIV);
-            const decryptedComponentId = await this.decrypt(record.componentId, record.componentIdIV);
-            decryptedRecords.push({
-              actionType: decryptedActionType,
-              componentId: decryptedComponentId,
-              timestamp: record.timestamp,
-            });
-          }
-
-          resolve(decryptedRecords);
-        };
-
-        getRequest.onerror = () => {
-          reject('Error retrieving interactions from IndexedDB');
-        };
-      };
+    return this.decryptRecords(await this.adapter.getInteractions());
+  }
 
-      request.onerror = () => {
-        reject('Error opening IndexedDB for retrieving interactions');
-      };
+  public async getInteractionsSince(timestamp: number): Promise<InteractionRecord[]> {
+    return this.decryptRecords(await this.adapter.getInteractions(timestamp));
+  }
+
+  public async getInteractionsInRange(from: number, to: number): Promise<InteractionRecord[]> {
+    return this.decryptRecords(await this.adapter.queryInteractions({ from, to }));
+  }
+
+  public async queryInteractions(query: InteractionQuery = {}): Promise<InteractionPage> {
+    let componentHashes: string[] | undefined;
+    if (query.componentId !== undefined) {
+      // During key rotation records may still be indexed under any key in the keyring.
+      const hashes = await Promise.all(
+        Array.from(this.keyring.values()).map(provider => this.hashComponentId(query.componentId!, provider))
+      );
+      componentHashes = hashes.filter((hash): hash is string => hash !== undefined);
+      if (!componentHashes.length) {
+        throw new Error('Component queries require a key provider with an index key');
+      }
+    }
+
+    const records = await this.adapter.queryInteractions({
+      from: query.from,
+      to: query.to,
+      componentHashes,
+      direction: query.order === 'oldest' ? 'next' : 'prev',
+      after: query.cursor ? decodeCursor(query.cursor) : undefined,
+      limit: query.limit,
     });
+
+    const hasMore = query.limit !== undefined && records.length === query.limit;
+    return {
+      interactions: await this.decryptRecords(records),
+      nextCursor: hasMore ? encodeCursor(records[records.length - 1]) : null,
+    };
   }
 
-  public clearInteractions(): void {
-    const request = indexedDB.open(this.dbName);
+  public async reindexInteractions(): Promise<number> {
+    const records = (await this.adapter.getInteractions()).filter(record => !record.componentHash);
+    const updated: StoredInteraction[] = [];
+
+    for (const record of records) {
+      const provider = record.keyVersion ? this.keyring.get(record.keyVersion) : this.keyProvider;
+      if (!provider) continue;
+      const componentId = await this.decrypt(record.componentId, record.componentIdIV, record.keyVersion);
+      const componentHash = await this.hashComponentId(componentId, provider);
+      if (componentHash) {
+        updated.push({ ...record, componentHash });
+      }
+    }
 
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(this.storeName, 'readwrite');
-      const store = transaction.objectStore(this.storeName);
+    for (let i = 0; i < updated.length; i += REENCRYPTION_BATCH_SIZE) {
+      await this.adapter.updateInteractions(updated.slice(i, i + REENCRYPTION_BATCH_SIZE));
+    }
+    console.log(`Indexed ${updated.length} interactions by component`);
+    return updated.length;
+  }
 
-      store.clear();
+  public async saveSnapshot<T>(snapshot: ModelSnapshot<T>): Promise<void> {
+    if (!this.canStore()) return;
+    const provider = this.keyProvider;
+    const encryptedState = await this.encrypt(JSON.stringify(snapshot.state), provider);
+    await this.adapter.saveSnapshot({
+      version: snapshot.version,
+      createdAt: snapshot.createdAt,
+      lastTimestamp: snapshot.lastTimestamp,
+      state: encryptedState.ciphertext,
+      stateIV: encryptedState.iv,
+      keyVersion: provider.version,
+    });
+    console.log('Model snapshot saved to storage, version:', snapshot.version);
+  }
 
-      transaction.oncomplete = () => {
-        console.log('All interactions cleared from IndexedDB');
-      };
+  public async getLatestSnapshot<T>(): Promise<ModelSnapshot<T> | null> {
+    const record = await this.adapter.getLatestSnapshot();
+    if (!record) return null;
 
-      transaction.onerror = () => {
-        console.error('Error clearing interactions from IndexedDB');
+    try {
+      const state = JSON.parse(await this.decrypt(record.state, record.stateIV, record.keyVersion)) as T;
+      return {
+        version: record.version,
+        createdAt: record.createdAt,
+        lastTimestamp: record.lastTimestamp,
+        state,
       };
-    };
+    } catch (error) {
+      console.error('Error restoring model snapshot:', error);
+      return null;
+    }
+  }
+
+  public rotateKey(newProvider: KeyProvider): Promise<void> {
+    this.keyring.set(newProvider.version, newProvider);
+    this.keyProvider = newProvider;
+    console.log(`Encryption key rotated to version '${newProvider.version}', re-encrypting stored data`);
+
+    // Retention deletes rows that a re-encryption batch may already hold in memory, so the two never overlap.
+    const previous = Promise.all([this.rotation, this.retentionRun].map(run => run?.catch(() => undefined)));
+    this.rotation = previous.then(() => this.reencryptStoredData(newProvider));
+    return this.rotation;
+  }
+
+  private async reencryptStoredData(provider: KeyProvider): Promise<void> {
+    const records = (await this.adapter.getInteractions()).filter(record => record.keyVersion !== provider.version);
+
+    for (let i = 0; i < records.length; i += REENCRYPTION_BATCH_SIZE) {
+      const batch: StoredInteraction[] = [];
+      for (const record of records.slice(i, i + REENCRYPTION_BATCH_SIZE)) {
+        const decrypted = await this.decryptRecord(record);
+        batch.push({ ...(await this.encryptRecord(decrypted, provider)), id: record.id });
+      }
+      await this.adapter.updateInteractions(batch);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
 
-    request.onerror = () => {
-      console.error('Error opening IndexedDB for clearing interactions');
+    const snapshot = await this.adapter.getLatestSnapshot();
+    if (snapshot && snapshot.keyVersion !== provider.version) {
+      const state = await this.decrypt(snapshot.state, snapshot.stateIV, snapshot.keyVersion);
+      const encryptedState = await this.encrypt(state, provider);
+      await this.adapter.saveSnapshot({
+        ...snapshot,
+        state: encryptedState.ciphertext,
+        stateIV: encryptedState.iv,
+        keyVersion: provider.version,
+      });
+    }
+
+    const aggregates = await this.adapter.getAggregates();
+    if (aggregates && aggregates.keyVersion !== provider.version) {
+      const state = await this.decrypt(aggregates.state, aggregates.stateIV, aggregates.keyVersion);
+      const encryptedState = await this.encrypt(state, provider);
+      await this.adapter.saveAggregates({
+        ...aggregates,
+        state: encryptedState.ciphertext,
+        stateIV: encryptedState.iv,
+        keyVersion: provider.version,
+      });
+    }
+
+    console.log(`Re-encrypted ${records.length} interactions with key version '${provider.version}'`);
+  }
+
+  public clearInteractions(): void {
+    this.adapter.clear()
+      .then(() => console.log('All interactions and model snapshots cleared from storage'))
+      .catch((error) => console.error('Error clearing interactions from storage:', error));
+  }
+
+  public async exportData(): Promise<StoredDataExport> {
+    return {
+      interactions: await this.getAllInteractions(),
+      aggregates: await this.getAggregates(),
+      snapshot: await this.getLatestSnapshot(),
     };
   }
 
+  public async eraseAllData(): Promise<void> {
+    await Promise.all([this.rotation, this.retentionRun].map(run => run?.catch(() => undefined)));
+    await this.adapter.clear();
+    this.componentHashCache.clear();
+    this.writesSinceRetention = 0;
+    console.log('All locally stored user data erased');
+  }
+
   public async getComponentData(componentId: string): Promise<InteractionRecord | null> {
-    const encryptedComponentId = await this.encrypt(componentId);
-    return new Promise(async (resolve, reject) => {
-      const request = indexedDB.open(this.dbName);
-
-      request.onsuccess = async () => {
-        const db = request.result;
-        const transaction = db.transaction(this.storeName, 'readonly');
-        const store = transaction.objectStore(this.storeName);
-        const getRequest = store.getAll();
-
-        getRequest.onsuccess = async () => {
-          const encryptedRecords = getRequest.result as any[];
-          for (const record of encryptedRecords) {
-            const decryptedComponentId = await this.decrypt(record.componentId, record.componentIdIV);
-            if (decryptedComponentId === componentId) {
-              const decryptedActionType = await this.decrypt(record.actionType, record.actionTypeIV);
-              resolve({
-                actionType: decryptedActionType,
-                componentId: decryptedComponentId,
-                timestamp: record.timestamp
-              });
-              return;
-            }
-          }
-          resolve(null);
-        };
-
-        getRequest.onerror = () => {
-          reject('Error retrieving component data from IndexedDB');
-        };
-      };
+    if (this.keyProvider.getIndexKey) {
+      const page = await this.queryInteractions({ componentId, order: 'oldest', limit: 1 });
+      return page.interactions[0] ?? null;
+    }
 
-      request.onerror = () => {
-        reject('Error opening IndexedDB for retrieving component data');
-      };
-    });
+    const records = await this.adapter.getInteractions();
+    for (const record of records) {
+      const decryptedComponentId = await this.decrypt(record.componentId, record.componentIdIV, record.keyVersion);
+      if (decryptedComponentId === componentId) {
+        return this.decryptRecord(record);
+      }
+    }
+    return null;
   }
 }
 
-DatabaseManager.getInstance();
-
-export default DatabaseManager;
\ No newline at end of file
+export default DatabaseManager;
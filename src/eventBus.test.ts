@@ -0,0 +1,96 @@
+import EventBus from './eventBus';
+import { createTestLibrary } from './testUtils';
+
+type TestEvents = {
+    ping: number;
+    pong: string;
+};
+
+describe('EventBus', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('delivers payloads until the returned disposer is called', () => {
+        const events = new EventBus<TestEvents>();
+        const received: number[] = [];
+        const dispose = events.on('ping', value => received.push(value));
+
+        events.emit('ping', 1);
+        dispose();
+        events.emit('ping', 2);
+
+        expect(received).toEqual([1]);
+        expect(events.listenerCount('ping')).toBe(0);
+    });
+
+    it('calls once listeners a single time and lets them be disposed early', () => {
+        const events = new EventBus<TestEvents>();
+        const received: number[] = [];
+        events.once('ping', value => received.push(value));
+        const dispose = events.once('ping', value => received.push(value * 10));
+        dispose();
+
+        events.emit('ping', 1);
+        events.emit('ping', 2);
+
+        expect(received).toEqual([1]);
+    });
+
+    it('keeps notifying other listeners when one throws', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const events = new EventBus<TestEvents>();
+        const received: string[] = [];
+        events.on('pong', () => {
+            throw new Error('broken listener');
+        });
+        events.on('pong', value => received.push(value));
+
+        events.emit('pong', 'ok');
+
+        expect(received).toEqual(['ok']);
+        expect(console.error).toHaveBeenCalledWith("Error in 'pong' listener:", expect.any(Error));
+    });
+
+    it('does not call listeners added while an event is being delivered', () => {
+        const events = new EventBus<TestEvents>();
+        const received: string[] = [];
+        events.on('ping', () => {
+            events.on('ping', () => received.push('late'));
+            received.push('first');
+        });
+
+        events.emit('ping', 1);
+
+        expect(received).toEqual(['first']);
+    });
+
+    it('clears one event or all of them', () => {
+        const events = new EventBus<TestEvents>();
+        events.on('ping', () => undefined);
+        events.on('pong', () => undefined);
+
+        events.clear('ping');
+        expect(events.listenerCount('ping')).toBe(0);
+        expect(events.listenerCount('pong')).toBe(1);
+
+        events.clear();
+        expect(events.listenerCount('pong')).toBe(0);
+    });
+
+    it('reports library events and drops every listener on dispose', () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        const library = createTestLibrary();
+        const tracked: string[] = [];
+        library.events.on('componentTracked', ({ componentId }) => tracked.push(componentId));
+        library.events.on('componentMounted', ({ componentId }) => tracked.push(`${componentId} mounted`));
+
+        library.componentTracker.trackComponent('cart', 'page');
+        library.componentTracker.mountComponent('cart');
+        library.dispose();
+        library.componentTracker.trackComponent('search', 'page');
+
+        expect(tracked).toEqual(['cart', 'cart mounted']);
+        expect(library.events.listenerCount('componentTracked')).toBe(0);
+    });
+});
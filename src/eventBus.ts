@@ -0,0 +1,91 @@
+//eventBus.ts
+import type { InteractionRecord } from './databaseManager';
+import type { PredictionCandidate } from './predictionModel';
+
+export interface PredictiveEvents {
+    componentTracked: { componentId: string; type: string; metadata?: Record<string, any> };
+    componentUntracked: { componentId: string };
+    componentMounted: { componentId: string };
+    componentUnmounted: { componentId: string };
+    interactionTracked: InteractionRecord;
+    interactionSaved: InteractionRecord;
+    predictionMade: { timestamp: number; candidates: PredictionCandidate[]; latencyMs: number };
+    preloadStarted: { componentId: string; speculative: boolean };
+    preloadCompleted: { componentId: string; speculative: boolean; durationMs: number };
+    preloadFailed: { componentId: string; speculative: boolean; error: unknown };
+    preloadCancelled: { componentId: string };
+    uploadSucceeded: { path: string; count: number };
+    uploadFailed: { path: string; count: number; error: unknown; dropped: boolean };
+    modelInitialized: { historyLength: number; restoredFromSnapshot: boolean };
+}
+
+export type Disposer = () => void;
+
+export type EventListener<T> = (payload: T) => void;
+
+class EventBus<Events extends object = PredictiveEvents> {
+    private static instance: EventBus;
+    private listeners: Map<keyof Events, Set<EventListener<any>>>;
+
+    constructor() {
+        this.listeners = new Map();
+    }
+
+    public static getInstance(): EventBus {
+        if (!EventBus.instance) {
+            EventBus.instance = new EventBus();
+        }
+        return EventBus.instance;
+    }
+
+    public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): Disposer {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): Disposer {
+        const dispose = this.on(event, (payload) => {
+            dispose();
+            listener(payload);
+        });
+        return dispose;
+    }
+
+    public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        const listeners = this.listeners.get(event);
+        if (!listeners) return;
+        listeners.delete(listener);
+        if (!listeners.size) {
+            this.listeners.delete(event);
+        }
+    }
+
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const listeners = this.listeners.get(event);
+        if (!listeners) return;
+        for (const listener of Array.from(listeners)) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Error in '${String(event)}' listener:`, error);
+            }
+        }
+    }
+
+    public listenerCount<K extends keyof Events>(event: K): number {
+        return this.listeners.get(event)?.size ?? 0;
+    }
+
+    public clear(event?: keyof Events): void {
+        if (event) {
+            this.listeners.delete(event);
+        } else {
+            this.listeners.clear();
+        }
+    }
+}
+
+export default EventBus;
@@ -0,0 +1,150 @@
+import { StorageAdapter, StoredAggregates, StoredInteraction, StoredInteractionQuery, StoredOutboundRequest, StoredSnapshot, applyInteractionQuery } from './storageAdapter';
+
+type FileContents = {
+  nextId: number;
+  interactions: StoredInteraction[];
+  snapshot: StoredSnapshot | null;
+  aggregates?: StoredAggregates | null;
+  outbound?: StoredOutboundRequest[];
+};
+
+class FileStorageAdapter implements StorageAdapter {
+  private filePath: string;
+  private contents: Promise<FileContents> | null;
+  private writeQueue: Promise<void>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.contents = null;
+    this.writeQueue = Promise.resolve();
+  }
+
+  private load(): Promise<FileContents> {
+    if (!this.contents) {
+      this.contents = (async () => {
+        const fs = await import('fs/promises');
+        try {
+          const raw = await fs.readFile(this.filePath, 'utf8');
+          return JSON.parse(raw) as FileContents;
+        } catch (error: unknown) {
+          const code = typeof error === 'object' && error !== null && 'code' in error ? error.code : undefined;
+          if (code !== 'ENOENT') {
+            console.error(`Error reading storage file '${this.filePath}':`, error);
+            throw error;
+          }
+          return { nextId: 1, interactions: [], snapshot: null };
+        }
+      })();
+    }
+    return this.contents;
+  }
+
+  private persist(contents: FileContents): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const fs = await import('fs/promises');
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(contents), 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writeQueue;
+  }
+
+  public async addInteraction(record: StoredInteraction): Promise<void> {
+    const contents = await this.load();
+    contents.interactions.push({ ...record, id: contents.nextId++ });
+    await this.persist(contents);
+  }
+
+  public async getInteractions(afterTimestamp?: number): Promise<StoredInteraction[]> {
+    const contents = await this.load();
+    if (afterTimestamp === undefined) {
+      return contents.interactions.map(record => ({ ...record }));
+    }
+    return contents.interactions
+      .filter(record => record.timestamp > afterTimestamp)
+      .map(record => ({ ...record }));
+  }
+
+  public async queryInteractions(query: StoredInteractionQuery): Promise<StoredInteraction[]> {
+    const contents = await this.load();
+    return applyInteractionQuery(contents.interactions, query).map(record => ({ ...record }));
+  }
+
+  public async updateInteractions(records: StoredInteraction[]): Promise<void> {
+    const contents = await this.load();
+    const updates = new Map(records.map(record => [record.id, record]));
+    contents.interactions = contents.interactions.map(record => {
+      const update = updates.get(record.id);
+      return update ? { ...update, id: record.id } : record;
+    });
+    await this.persist(contents);
+  }
+
+  public async deleteInteractions(ids: number[]): Promise<void> {
+    const contents = await this.load();
+    const removed = new Set(ids);
+    contents.interactions = contents.interactions.filter(record => !removed.has(record.id!));
+    await this.persist(contents);
+  }
+
+  public async saveSnapshot(record: StoredSnapshot): Promise<void> {
+    const contents = await this.load();
+    contents.snapshot = { ...record };
+    await this.persist(contents);
+  }
+
+  public async getLatestSnapshot(): Promise<StoredSnapshot | null> {
+    const contents = await this.load();
+    return contents.snapshot ? { ...contents.snapshot } : null;
+  }
+
+  public async saveAggregates(record: StoredAggregates): Promise<void> {
+    const contents = await this.load();
+    contents.aggregates = { ...record };
+    await this.persist(contents);
+  }
+
+  public async getAggregates(): Promise<StoredAggregates | null> {
+    const contents = await this.load();
+    return contents.aggregates ? { ...contents.aggregates } : null;
+  }
+
+  public async addOutbound(record: StoredOutboundRequest): Promise<number> {
+    const contents = await this.load();
+    const id = contents.nextId++;
+    contents.outbound = [...(contents.outbound ?? []), { ...record, id }];
+    await this.persist(contents);
+    return id;
+  }
+
+  public async getOutbound(): Promise<StoredOutboundRequest[]> {
+    const contents = await this.load();
+    return (contents.outbound ?? []).map(record => ({ ...record }));
+  }
+
+  public async updateOutbound(record: StoredOutboundRequest): Promise<void> {
+    const contents = await this.load();
+    contents.outbound = (contents.outbound ?? []).map(existing => existing.id === record.id ? { ...record } : existing);
+    await this.persist(contents);
+  }
+
+  public async deleteOutbound(ids: number[]): Promise<void> {
+    const contents = await this.load();
+    const removed = new Set(ids);
+    contents.outbound = (contents.outbound ?? []).filter(record => !removed.has(record.id!));
+    await this.persist(contents);
+  }
+
+  public async clear(): Promise<void> {
+    const contents = await this.load();
+    contents.interactions = [];
+    contents.snapshot = null;
+    contents.aggregates = null;
+    contents.outbound = [];
+    await this.persist(contents);
+  }
+}
+
+export default FileStorageAdapter;
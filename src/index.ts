@@ -1,6 +1,91 @@
 export { default as ComponentTracker } from "./componentTracker";
+export type { ComponentData, ComponentLifecycle, ComponentAssociation, TrackComponentOptions } from "./componentTracker";
 export { default as InteractionTracker } from "./interactionTracker";
 export { default as ComponentPreloader } from "./componentPreloader"
-import predictionModelInstance from "./predictionModel";
-
-predictionModelInstance;
\ No newline at end of file
+export type { ComponentLoader, ComponentPreloaderOptions } from "./componentPreloader";
+export { default as PreloadScheduler } from "./preloadScheduler";
+export type { PreloadSchedulerOptions, PreloadTask, EffectiveConnectionType } from "./preloadScheduler";
+export { default as PreloadCache, estimateModuleSize } from "./preloadCache";
+export type { PreloadCacheOptions, PreloadCacheStats, EvictionReason } from "./preloadCache";
+export { default as ResourcePrefetcher } from "./resourcePrefetcher";
+export type { PrefetchResource, ResourcePrefetcherOptions, ResponseFormat } from "./resourcePrefetcher";
+export { default as PredictionModel } from "./predictionModel";
+export type { PredictionCandidate, ModelHyperparameters, PredictionModelOptions, UserDataExport } from "./predictionModel";
+export { default as DatabaseManager, createDefaultStorageAdapter } from "./databaseManager";
+export type {
+    InteractionRecord,
+    InteractionQuery,
+    InteractionPage,
+    RetentionPolicy,
+    RetentionResult,
+    InteractionAggregates,
+    StoredDataExport,
+} from "./databaseManager";
+export type {
+    StorageAdapter,
+    StoredInteraction,
+    StoredInteractionQuery,
+    InteractionCursor,
+    StoredSnapshot,
+    StoredAggregates,
+} from "./storageAdapter";
+export { default as IndexedDBStorageAdapter } from "./indexedDBStorageAdapter";
+export type { IndexedDBStorageOptions } from "./indexedDBStorageAdapter";
+export { default as MemoryStorageAdapter } from "./memoryStorageAdapter";
+export { createStaticKeyProvider, createEnvironmentKeyProvider, createDerivedKeyProvider, createIndexedDBKeyProvider } from "./keyProvider";
+export type { KeyProvider, DerivedKeyOptions, IndexedDBKeyOptions } from "./keyProvider";
+export { default as SessionManager } from "./sessionManager";
+export type { SessionManagerOptions } from "./sessionManager";
+export { default as UploadQueue } from "./uploadQueue";
+export type { UploadQueueOptions, UploadQueueHooks } from "./uploadQueue";
+export { default as DifferentialPrivacy, combineGuarantees } from "./privacy";
+export type { PrivacyOptions, PrivacyGuarantee, PrivatizedCounts, NoiseMechanism } from "./privacy";
+export { default as ConsentManager } from "./consentManager";
+export type { ConsentState, ConsentManagerOptions } from "./consentManager";
+export { default as MetricsCollector } from "./metricsCollector";
+export type { MetricsOptions, MetricsSnapshot, WindowMetrics, LatencySummary, MetricsCallback } from "./metricsCollector";
+export {
+    FrequencyPredictor,
+    RecencyPredictor,
+    MarkovBackoffPredictor,
+    EnsemblePredictor,
+    normalizeDistribution,
+} from "./predictor";
+export type {
+    Predictor,
+    PredictorFactory,
+    PredictionContext,
+    PredictionDistribution,
+    RecencyPredictorOptions,
+    MarkovBackoffPredictorOptions,
+    EnsembleMember,
+    EnsemblePredictorOptions,
+} from "./predictor";
+export { getLocalTime, getDefaultTimezone } from "./temporal";
+export type { TemporalOptions, TimeBucketScheme, LocalTime } from "./temporal";
+export { detectDeviceType } from "./context";
+export type { InteractionContext, ContextOptions } from "./context";
+export { runBacktest, gridSearch, randomSearch, parseInteractionLog } from "./backtest";
+export type {
+    BacktestOptions,
+    BacktestResult,
+    BacktestObjective,
+    SearchableParameter,
+    SearchOptions,
+    RandomSearchOptions,
+    SearchResult,
+} from "./backtest";
+export { default as EventBus } from "./eventBus";
+export type { PredictiveEvents, Disposer, EventListener } from "./eventBus";
+export { default as AutoCapture } from "./autoCapture";
+export type { AutoCaptureOptions, CaptureTrigger } from "./autoCapture";
+export { default as NavigationTracker } from "./navigationTracker";
+export type {
+    NavigationTrackerOptions,
+    RouteDefinition,
+    RouteMatch,
+    PredictedRoute,
+    RouterSubscribe,
+} from "./navigationTracker";
+export { createPredictiveLibrary } from "./createPredictiveLibrary";
+export type { PredictiveLibraryConfig, PredictiveLibrary, StorageConfig } from "./createPredictiveLibrary";
@@ -0,0 +1,308 @@
+import {
+  StorageAdapter,
+  StoredAggregates,
+  StoredInteraction,
+  StoredInteractionQuery,
+  StoredOutboundRequest,
+  StoredSnapshot,
+  applyInteractionQuery,
+  isPastCursor,
+} from './storageAdapter';
+
+const DB_VERSION = 5;
+const AGGREGATES_KEY = 'current';
+
+export interface IndexedDBStorageOptions {
+  dbName?: string;
+  fallback?: StorageAdapter | null;
+}
+
+class IndexedDBStorageAdapter implements StorageAdapter {
+  private dbName: string;
+  private storeName: string;
+  private snapshotStoreName: string;
+  private aggregateStoreName: string;
+  private outboundStoreName: string;
+  private fallback: StorageAdapter | null;
+  private dbPromise: Promise<IDBDatabase | null> | null;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.dbName = options.dbName ?? 'PredictLibraryDB';
+    this.storeName = 'Interactions';
+    this.snapshotStoreName = 'Snapshots';
+    this.aggregateStoreName = 'Aggregates';
+    this.outboundStoreName = 'Outbox';
+    this.fallback = options.fallback ?? null;
+    this.dbPromise = null;
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        let request: IDBOpenDBRequest;
+        try {
+          request = indexedDB.open(this.dbName, DB_VERSION);
+        } catch (error) {
+          this.handleOpenFailure(error, resolve, reject);
+          return;
+        }
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          const store = db.objectStoreNames.contains(this.storeName)
+            ? request.transaction!.objectStore(this.storeName)
+            : db.createObjectStore(this.storeName, { keyPath: 'id', autoIncrement: true });
+          if (!store.indexNames.contains('componentId')) {
+            store.createIndex('componentId', 'componentId', { unique: false });
+          }
+          if (!store.indexNames.contains('timestamp')) {
+            store.createIndex('timestamp', 'timestamp', { unique: false });
+          }
+          if (!store.indexNames.contains('componentHash_timestamp')) {
+            store.createIndex('componentHash_timestamp', ['componentHash', 'timestamp'], { unique: false });
+          }
+          if (!db.objectStoreNames.contains(this.snapshotStoreName)) {
+            db.createObjectStore(this.snapshotStoreName, { keyPath: 'id', autoIncrement: true });
+          }
+          if (!db.objectStoreNames.contains(this.aggregateStoreName)) {
+            db.createObjectStore(this.aggregateStoreName);
+          }
+          if (!db.objectStoreNames.contains(this.outboundStoreName)) {
+            db.createObjectStore(this.outboundStoreName, { keyPath: 'id', autoIncrement: true });
+          }
+        };
+
+        request.onsuccess = () => {
+          console.log('IndexedDB initialized successfully');
+          resolve(request.result);
+        };
+
+        request.onerror = () => {
+          this.handleOpenFailure(request.error, resolve, reject);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private handleOpenFailure(
+    error: unknown,
+    resolve: (db: IDBDatabase | null) => void,
+    reject: (reason: unknown) => void
+  ): void {
+    if (this.fallback) {
+      console.warn('IndexedDB is unavailable, falling back to the configured storage adapter:', error);
+      resolve(null);
+      return;
+    }
+    console.error('Error initializing IndexedDB');
+    this.dbPromise = null;
+    reject('Error opening IndexedDB');
+  }
+
+  private async run<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    operation: (transaction: IDBTransaction) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.openDatabase();
+    if (!db) {
+      throw new Error('IndexedDB is unavailable');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      const request = operation(transaction);
+
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async useFallback(): Promise<StorageAdapter | null> {
+    const db = await this.openDatabase();
+    return db ? null : this.fallback;
+  }
+
+  public async addInteraction(record: StoredInteraction): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.addInteraction(record);
+
+    await this.run([this.storeName], 'readwrite', transaction => {
+      transaction.objectStore(this.storeName).add(record);
+    });
+  }
+
+  public async getInteractions(afterTimestamp?: number): Promise<StoredInteraction[]> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.getInteractions(afterTimestamp);
+
+    const result = await this.run<StoredInteraction[]>([this.storeName], 'readonly', transaction => {
+      const store = transaction.objectStore(this.storeName);
+      return afterTimestamp === undefined
+        ? store.getAll()
+        : store.index('timestamp').getAll(IDBKeyRange.lowerBound(afterTimestamp, true));
+    });
+    return result || [];
+  }
+
+  public async queryInteractions(query: StoredInteractionQuery): Promise<StoredInteraction[]> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.queryInteractions(query);
+
+    const direction = query.direction ?? 'next';
+    let lower = query.from ?? -Infinity;
+    let upper = query.to ?? Infinity;
+    if (query.after) {
+      if (direction === 'next') lower = Math.max(lower, query.after.timestamp);
+      else upper = Math.min(upper, query.after.timestamp);
+    }
+    if (lower > upper) return [];
+
+    const results: StoredInteraction[] = [];
+    await this.run([this.storeName], 'readonly', transaction => {
+      const store = transaction.objectStore(this.storeName);
+      const sources: Array<[IDBIndex, IDBKeyRange]> = query.componentHashes
+        ? query.componentHashes.map(hash => [
+          store.index('componentHash_timestamp'),
+          IDBKeyRange.bound([hash, lower], [hash, upper]),
+        ])
+        : [[store.index('timestamp'), IDBKeyRange.bound(lower, upper)]];
+
+      for (const [index, range] of sources) {
+        const request = index.openCursor(range, direction);
+        let collected = 0;
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          const record = cursor.value as StoredInteraction;
+          if (isPastCursor(record, query)) {
+            results.push(record);
+            collected++;
+            if (query.limit !== undefined && collected >= query.limit) return;
+          }
+          cursor.continue();
+        };
+      }
+    });
+    return applyInteractionQuery(results, query);
+  }
+
+  public async updateInteractions(records: StoredInteraction[]): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.updateInteractions(records);
+
+    await this.run([this.storeName], 'readwrite', transaction => {
+      const store = transaction.objectStore(this.storeName);
+      records.filter(record => record.id !== undefined).forEach((record) => {
+        // Only rewrite rows that still exist, so a stale batch cannot resurrect deleted interactions.
+        const request = store.getKey(record.id!);
+        request.onsuccess = () => {
+          if (request.result !== undefined) store.put(record);
+        };
+      });
+    });
+  }
+
+  public async deleteInteractions(ids: number[]): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.deleteInteractions(ids);
+
+    await this.run([this.storeName], 'readwrite', transaction => {
+      const store = transaction.objectStore(this.storeName);
+      ids.forEach(id => store.delete(id));
+    });
+  }
+
+  public async saveSnapshot(record: StoredSnapshot): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.saveSnapshot(record);
+
+    await this.run([this.snapshotStoreName], 'readwrite', transaction => {
+      const store = transaction.objectStore(this.snapshotStoreName);
+      store.clear();
+      store.add(record);
+    });
+  }
+
+  public async getLatestSnapshot(): Promise<StoredSnapshot | null> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.getLatestSnapshot();
+
+    const result = await this.run<StoredSnapshot[]>([this.snapshotStoreName], 'readonly', transaction =>
+      transaction.objectStore(this.snapshotStoreName).getAll()
+    );
+    return result && result.length ? result[result.length - 1] : null;
+  }
+
+  public async saveAggregates(record: StoredAggregates): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.saveAggregates(record);
+
+    await this.run([this.aggregateStoreName], 'readwrite', transaction => {
+      transaction.objectStore(this.aggregateStoreName).put(record, AGGREGATES_KEY);
+    });
+  }
+
+  public async getAggregates(): Promise<StoredAggregates | null> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.getAggregates();
+
+    const result = await this.run<StoredAggregates | undefined>([this.aggregateStoreName], 'readonly', transaction =>
+      transaction.objectStore(this.aggregateStoreName).get(AGGREGATES_KEY)
+    );
+    return result ?? null;
+  }
+
+  public async addOutbound(record: StoredOutboundRequest): Promise<number> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.addOutbound(record);
+
+    const id = await this.run<IDBValidKey>([this.outboundStoreName], 'readwrite', transaction =>
+      transaction.objectStore(this.outboundStoreName).add(record)
+    );
+    return id as number;
+  }
+
+  public async getOutbound(): Promise<StoredOutboundRequest[]> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.getOutbound();
+
+    const result = await this.run<StoredOutboundRequest[]>([this.outboundStoreName], 'readonly', transaction =>
+      transaction.objectStore(this.outboundStoreName).getAll()
+    );
+    return result || [];
+  }
+
+  public async updateOutbound(record: StoredOutboundRequest): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.updateOutbound(record);
+
+    await this.run([this.outboundStoreName], 'readwrite', transaction => {
+      transaction.objectStore(this.outboundStoreName).put(record);
+    });
+  }
+
+  public async deleteOutbound(ids: number[]): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.deleteOutbound(ids);
+
+    await this.run([this.outboundStoreName], 'readwrite', transaction => {
+      const store = transaction.objectStore(this.outboundStoreName);
+      ids.forEach(id => store.delete(id));
+    });
+  }
+
+  public async clear(): Promise<void> {
+    const fallback = await this.useFallback();
+    if (fallback) return fallback.clear();
+
+    const storeNames = [this.storeName, this.snapshotStoreName, this.aggregateStoreName, this.outboundStoreName];
+    await this.run(storeNames, 'readwrite', transaction => {
+      storeNames.forEach(name => transaction.objectStore(name).clear());
+    });
+  }
+}
+
+export default IndexedDBStorageAdapter;
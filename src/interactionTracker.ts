@@ -1,32 +1,77 @@
 //interactionTracker.ts
 import DatabaseManager from './databaseManager';
 import ComponentTracker from './componentTracker';
-
-const componentTracker = ComponentTracker.getInstance();
+import PredictionModel from './predictionModel';
+import SessionManager from './sessionManager';
+import ConsentManager from './consentManager';
+import { getDefaultTimezone } from './temporal';
+import { InteractionContext, detectDeviceType } from './context';
+import EventBus from './eventBus';
 
 class InteractionTracker {
   private dbManager: DatabaseManager;
   private componentTracker: ComponentTracker;
+  private sessionManager: SessionManager;
+  private consentManager: ConsentManager;
+  private defaultContext: InteractionContext;
+  private events: EventBus;
+  private timezone: string | undefined;
 
-  constructor(componentTracker: ComponentTracker) {
-    this.dbManager = DatabaseManager.getInstance();
+  constructor(
+    componentTracker: ComponentTracker,
+    dbManager?: DatabaseManager,
+    sessionManager?: SessionManager,
+    consentManager?: ConsentManager,
+    events?: EventBus,
+    timezone?: string
+  ) {
     this.componentTracker = componentTracker;
+    this.sessionManager = sessionManager ?? SessionManager.getInstance();
+    this.consentManager = consentManager ?? ConsentManager.getInstance();
+    this.events = events ?? EventBus.getInstance();
+    // The model buckets learned patterns by this timezone, so it has to be the one predictions are made in.
+    this.timezone = timezone ?? getDefaultTimezone();
+    const deviceType = detectDeviceType();
+    this.defaultContext = deviceType ? { deviceType } : {};
+    if (dbManager) {
+      this.dbManager = dbManager;
+    } else {
+      this.dbManager = DatabaseManager.getInstance();
+      PredictionModel.getInstance();
+    }
+  }
+
+  public setDefaultContext(context: InteractionContext): void {
+    this.defaultContext = { ...this.defaultContext, ...context };
   }
 
-  public trackInteraction(actionType: string): void {
+  public getDefaultContext(): InteractionContext {
+    return { ...this.defaultContext };
+  }
+
+  public trackInteraction(actionType: string, context?: InteractionContext): void {
+    if (!this.consentManager.isGranted()) return;
+
     const componentId = this.componentTracker.getComponentByAction(actionType);
     if (!componentId) {
       console.warn(`Компонент для действия '${actionType}' не найден.`);
       return;
     }
 
+    const timestamp = Date.now();
     const interaction = {
       componentId,
       actionType,
-      timestamp: Date.now(),
+      timestamp,
+      sessionId: this.sessionManager.touch(timestamp),
+      timezone: this.timezone,
+      context: { ...this.defaultContext, ...context },
     };
 
-    this.dbManager.saveInteraction(interaction);
+    this.events.emit('interactionTracked', interaction);
+    this.dbManager.saveInteraction(interaction).catch((error) => {
+      console.error('Error saving tracked interaction:', error);
+    });
 
     console.log('Interaction tracked:', interaction);
   }
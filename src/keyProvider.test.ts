@@ -0,0 +1,47 @@
+import { createDerivedKeyProvider, createEnvironmentKeyProvider, createStaticKeyProvider } from './keyProvider';
+
+async function sign(key: CryptoKey, value: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+    return Buffer.from(signature).toString('hex');
+}
+
+describe('key providers', () => {
+    it('does not include the rejected key in the error message', () => {
+        const almostKey = 'a'.repeat(63) + 'z';
+        expect(() => createStaticKeyProvider(almostKey)).toThrow('Got 64 characters.');
+        try {
+            createStaticKeyProvider(almostKey);
+        } catch (error) {
+            expect((error as Error).message).not.toContain(almostKey);
+        }
+    });
+
+    it('derives a stable index key per secret that is separate from the encryption key', async () => {
+        const first = createStaticKeyProvider('0'.repeat(64));
+        const second = createStaticKeyProvider('0'.repeat(64));
+        const other = createStaticKeyProvider('1'.repeat(64));
+
+        const digest = await sign(await first.getIndexKey!(), 'home');
+        expect(await sign(await second.getIndexKey!(), 'home')).toBe(digest);
+        expect(await sign(await other.getIndexKey!(), 'home')).not.toBe(digest);
+        expect((await first.getKey()).algorithm.name).toBe('AES-GCM');
+    });
+
+    it('derives both keys from a secret', async () => {
+        const provider = createDerivedKeyProvider({ secret: 'secret', salt: 'salt', version: 'v1', algorithm: 'HKDF' });
+
+        expect((await provider.getKey()).algorithm.name).toBe('AES-GCM');
+        expect((await provider.getIndexKey!()).algorithm.name).toBe('HMAC');
+        expect(provider.getIndexKey!()).toBe(provider.getIndexKey!());
+    });
+
+    it('rejects index key requests when the environment key is missing', async () => {
+        const previous = process.env.ENCRYPTION_KEY;
+        delete process.env.ENCRYPTION_KEY;
+        try {
+            await expect(createEnvironmentKeyProvider().getIndexKey!()).rejects.toThrow('ENCRYPTION_KEY is not defined');
+        } finally {
+            if (previous !== undefined) process.env.ENCRYPTION_KEY = previous;
+        }
+    });
+});
@@ -0,0 +1,194 @@
+export interface KeyProvider {
+    version: string;
+    getKey(): Promise<CryptoKey>;
+    getIndexKey?(): Promise<CryptoKey>;
+}
+
+const HMAC_PARAMS = { name: 'HMAC', hash: 'SHA-256', length: 256 };
+
+export interface DerivedKeyOptions {
+    secret: string | (() => Promise<string>);
+    salt: string;
+    version: string;
+    algorithm?: 'PBKDF2' | 'HKDF';
+    iterations?: number;
+    info?: string;
+}
+
+export interface IndexedDBKeyOptions {
+    version: string;
+    dbName?: string;
+    storeName?: string;
+}
+
+function parseHexKey(keyHex: string): Uint8Array {
+    if (keyHex.length !== 64 || !/^[0-9a-fA-F]{64}$/.test(keyHex)) {
+        // Never echo the value: it is the key itself, or a near miss of it.
+        throw new Error(`ENCRYPTION_KEY must be a 64-character hexadecimal string. Got ${keyHex.length} characters.`);
+    }
+    return new Uint8Array(keyHex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)));
+}
+
+export function createStaticKeyProvider(keyHex: string, version = 'static'): KeyProvider {
+    const rawKey = parseHexKey(keyHex);
+    let key: Promise<CryptoKey> | null = null;
+    let indexKey: Promise<CryptoKey> | null = null;
+
+    return {
+        version,
+        getKey(): Promise<CryptoKey> {
+            if (!key) {
+                key = crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+            }
+            return key;
+        },
+        getIndexKey(): Promise<CryptoKey> {
+            if (!indexKey) {
+                const info = new TextEncoder().encode('predict-library-index');
+                indexKey = crypto.subtle.importKey('raw', rawKey, 'HKDF', false, ['deriveKey']).then(baseKey =>
+                    crypto.subtle.deriveKey({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info }, baseKey, HMAC_PARAMS, false, ['sign'])
+                );
+            }
+            return indexKey;
+        },
+    };
+}
+
+export function createEnvironmentKeyProvider(version = 'env'): KeyProvider {
+    let provider: KeyProvider | null = null;
+
+    const environmentProvider: KeyProvider = {
+        version,
+        getKey(): Promise<CryptoKey> {
+            if (!provider) {
+                const keyHex = process.env.ENCRYPTION_KEY;
+                if (!keyHex) {
+                    return Promise.reject(new Error('ENCRYPTION_KEY is not defined in .env or build configuration'));
+                }
+                try {
+                    provider = createStaticKeyProvider(keyHex, version);
+                } catch (error) {
+                    return Promise.reject(error);
+                }
+            }
+            return provider.getKey();
+        },
+        getIndexKey(): Promise<CryptoKey> {
+            // getKey() creates the underlying provider, or rejects with the reason it cannot.
+            return environmentProvider.getKey().then(() => provider!.getIndexKey!());
+        },
+    };
+    return environmentProvider;
+}
+
+export function createDerivedKeyProvider(options: DerivedKeyOptions): KeyProvider {
+    const algorithm = options.algorithm ?? 'PBKDF2';
+    let key: Promise<CryptoKey> | null = null;
+    let indexKey: Promise<CryptoKey> | null = null;
+
+    // The index key comes from the same secret under a separate salt (PBKDF2) or info (HKDF) suffix.
+    const derive = async (
+        suffix: string = '',
+        target: AesKeyGenParams | HmacKeyGenParams = { name: 'AES-GCM', length: 256 },
+        usages: KeyUsage[] = ['encrypt', 'decrypt']
+    ): Promise<CryptoKey> => {
+        const secret = typeof options.secret === 'function' ? await options.secret() : options.secret;
+        const encoder = new TextEncoder();
+        const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), algorithm, false, ['deriveKey']);
+        const params = algorithm === 'PBKDF2'
+            ? { name: 'PBKDF2', salt: encoder.encode(options.salt + suffix), iterations: options.iterations ?? 310000, hash: 'SHA-256' }
+            : { name: 'HKDF', salt: encoder.encode(options.salt), info: encoder.encode((options.info ?? 'predict-library') + suffix), hash: 'SHA-256' };
+        return crypto.subtle.deriveKey(params, baseKey, target, false, usages);
+    };
+
+    return {
+        version: options.version,
+        getKey(): Promise<CryptoKey> {
+            if (!key) {
+                key = derive().catch((error) => {
+                    key = null;
+                    throw error;
+                });
+            }
+            return key;
+        },
+        getIndexKey(): Promise<CryptoKey> {
+            if (!indexKey) {
+                indexKey = derive(':index', HMAC_PARAMS, ['sign']).catch((error) => {
+                    indexKey = null;
+                    throw error;
+                });
+            }
+            return indexKey;
+        },
+    };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function createIndexedDBKeyProvider(options: IndexedDBKeyOptions): KeyProvider {
+    const dbName = options.dbName ?? 'PredictLibraryKeys';
+    const storeName = options.storeName ?? 'Keys';
+    let key: Promise<CryptoKey> | null = null;
+    let indexKey: Promise<CryptoKey> | null = null;
+
+    const loadOrGenerate = async (
+        id: string = options.version,
+        algorithm: AesKeyGenParams | HmacKeyGenParams = { name: 'AES-GCM', length: 256 },
+        usages: KeyUsage[] = ['encrypt', 'decrypt']
+    ): Promise<CryptoKey> => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(storeName)) {
+                request.result.createObjectStore(storeName);
+            }
+        };
+        const db = await requestToPromise(request);
+
+        const existing = await requestToPromise<CryptoKey | undefined>(
+            db.transaction(storeName, 'readonly').objectStore(storeName).get(id)
+        );
+        if (existing) return existing;
+
+        const generated = await crypto.subtle.generateKey(algorithm, false, usages) as CryptoKey;
+        try {
+            await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).add(generated, id));
+        } catch (error) {
+            // Another tab stored a key for this version first; use that one so both tabs agree.
+            const stored = await requestToPromise<CryptoKey | undefined>(
+                db.transaction(storeName, 'readonly').objectStore(storeName).get(id)
+            );
+            if (stored) return stored;
+            throw error;
+        }
+        console.log(`Generated non-extractable key '${id}'`);
+        return generated;
+    };
+
+    return {
+        version: options.version,
+        getKey(): Promise<CryptoKey> {
+            if (!key) {
+                key = loadOrGenerate().catch((error) => {
+                    key = null;
+                    throw error;
+                });
+            }
+            return key;
+        },
+        getIndexKey(): Promise<CryptoKey> {
+            if (!indexKey) {
+                indexKey = loadOrGenerate(`${options.version}:index`, HMAC_PARAMS, ['sign']).catch((error) => {
+                    indexKey = null;
+                    throw error;
+                });
+            }
+            return indexKey;
+        },
+    };
+}
@@ -0,0 +1,91 @@
+import { StorageAdapter, StoredAggregates, StoredInteraction, StoredInteractionQuery, StoredOutboundRequest, StoredSnapshot, applyInteractionQuery } from './storageAdapter';
+
+class MemoryStorageAdapter implements StorageAdapter {
+  private interactions: StoredInteraction[];
+  private snapshot: StoredSnapshot | null;
+  private aggregates: StoredAggregates | null;
+  private outbound: StoredOutboundRequest[];
+  private nextId: number;
+
+  constructor() {
+    this.interactions = [];
+    this.snapshot = null;
+    this.aggregates = null;
+    this.outbound = [];
+    this.nextId = 1;
+  }
+
+  public async addInteraction(record: StoredInteraction): Promise<void> {
+    this.interactions.push({ ...record, id: this.nextId++ });
+  }
+
+  public async getInteractions(afterTimestamp?: number): Promise<StoredInteraction[]> {
+    if (afterTimestamp === undefined) {
+      return this.interactions.map(record => ({ ...record }));
+    }
+    return this.interactions
+      .filter(record => record.timestamp > afterTimestamp)
+      .map(record => ({ ...record }));
+  }
+
+  public async queryInteractions(query: StoredInteractionQuery): Promise<StoredInteraction[]> {
+    return applyInteractionQuery(this.interactions, query).map(record => ({ ...record }));
+  }
+
+  public async updateInteractions(records: StoredInteraction[]): Promise<void> {
+    const updates = new Map(records.map(record => [record.id, record]));
+    this.interactions = this.interactions.map(record => {
+      const update = updates.get(record.id);
+      return update ? { ...update, id: record.id } : record;
+    });
+  }
+
+  public async deleteInteractions(ids: number[]): Promise<void> {
+    const removed = new Set(ids);
+    this.interactions = this.interactions.filter(record => !removed.has(record.id!));
+  }
+
+  public async saveSnapshot(record: StoredSnapshot): Promise<void> {
+    this.snapshot = { ...record };
+  }
+
+  public async getLatestSnapshot(): Promise<StoredSnapshot | null> {
+    return this.snapshot ? { ...this.snapshot } : null;
+  }
+
+  public async saveAggregates(record: StoredAggregates): Promise<void> {
+    this.aggregates = { ...record };
+  }
+
+  public async getAggregates(): Promise<StoredAggregates | null> {
+    return this.aggregates ? { ...this.aggregates } : null;
+  }
+
+  public async addOutbound(record: StoredOutboundRequest): Promise<number> {
+    const id = this.nextId++;
+    this.outbound.push({ ...record, id });
+    return id;
+  }
+
+  public async getOutbound(): Promise<StoredOutboundRequest[]> {
+    return this.outbound.map(record => ({ ...record }));
+  }
+
+  public async updateOutbound(record: StoredOutboundRequest): Promise<void> {
+    this.outbound = this.outbound.map(existing => existing.id === record.id ? { ...record } : existing);
+  }
+
+  public async deleteOutbound(ids: number[]): Promise<void> {
+    const removed = new Set(ids);
+    this.outbound = this.outbound.filter(record => !removed.has(record.id!));
+  }
+
+  public async clear(): Promise<void> {
+    this.interactions = [];
+    this.snapshot = null;
+    this.aggregates = null;
+    this.outbound = [];
+  }
+}
+
+export default MemoryStorageAdapter;
@@ -0,0 +1,190 @@
+//metricsCollector.ts
+export interface MetricsOptions {
+    windowsMs?: number[];
+    maxSamples?: number;
+}
+
+export interface LatencySummary {
+    average: number;
+    p50: number;
+    p95: number;
+    max: number;
+}
+
+export interface WindowMetrics {
+    windowMs: number;
+    predictions: number;
+    hitAt1: number;
+    hitAtK: number;
+    preloadsStarted: number;
+    preloadsUsed: number;
+    preloadsWasted: number;
+    preloadUsageRate: number;
+    cacheHits: number;
+    cacheMisses: number;
+    cacheHitRate: number;
+    latencyMs: LatencySummary;
+}
+
+export interface MetricsSnapshot {
+    generatedAt: number;
+    windows: WindowMetrics[];
+}
+
+export type MetricsCallback = (metrics: MetricsSnapshot) => void;
+
+type PredictionSample = {
+    timestamp: number;
+    hitAt1: boolean;
+    hitAtK: boolean;
+};
+
+type LatencySample = {
+    timestamp: number;
+    durationMs: number;
+};
+
+type PreloadSample = {
+    timestamp: number;
+    componentId: string;
+    used: boolean;
+};
+
+type CacheSample = {
+    timestamp: number;
+    hit: boolean;
+};
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator > 0 ? numerator / denominator : 0;
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (!sorted.length) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+class MetricsCollector {
+    private windowsMs: number[];
+    private maxSamples: number;
+    private predictions: PredictionSample[];
+    private latencies: LatencySample[];
+    private preloads: PreloadSample[];
+    private cacheLookups: CacheSample[];
+    private reportTimer: ReturnType<typeof setInterval> | null;
+
+    constructor(options: MetricsOptions = {}) {
+        this.windowsMs = options.windowsMs ?? [5 * 60 * 1000, 60 * 60 * 1000, 24 * 60 * 60 * 1000];
+        this.maxSamples = options.maxSamples ?? 5000;
+        this.predictions = [];
+        this.latencies = [];
+        this.preloads = [];
+        this.cacheLookups = [];
+        this.reportTimer = null;
+    }
+
+    public recordPredictionOutcome(predictedActions: string[], actualAction: string, timestamp: number = Date.now()): void {
+        this.push(this.predictions, {
+            timestamp,
+            hitAt1: predictedActions[0] === actualAction,
+            hitAtK: predictedActions.includes(actualAction),
+        });
+    }
+
+    public recordPredictionLatency(durationMs: number, timestamp: number = Date.now()): void {
+        this.push(this.latencies, { timestamp, durationMs });
+    }
+
+    public recordPreloadStarted(componentId: string, timestamp: number = Date.now()): void {
+        this.push(this.preloads, { timestamp, componentId, used: false });
+    }
+
+    // Only the preload that produced the entry being read counts as used; an older, expired one stays wasted.
+    public recordCacheLookup(componentId: string, hit: boolean, timestamp: number = Date.now(), preloadStartedAt?: number): void {
+        this.push(this.cacheLookups, { timestamp, hit });
+        if (!hit || preloadStartedAt === undefined) return;
+
+        for (let i = this.preloads.length - 1; i >= 0; i--) {
+            const preload = this.preloads[i];
+            if (preload.componentId === componentId && preload.timestamp === preloadStartedAt) {
+                preload.used = true;
+                return;
+            }
+        }
+    }
+
+    private push<T>(samples: T[], sample: T): void {
+        samples.push(sample);
+        if (samples.length > this.maxSamples) {
+            samples.splice(0, samples.length - this.maxSamples);
+        }
+    }
+
+    public getMetrics(now: number = Date.now()): MetricsSnapshot {
+        return {
+            generatedAt: now,
+            windows: this.windowsMs.map(windowMs => this.getWindowMetrics(windowMs, now)),
+        };
+    }
+
+    private getWindowMetrics(windowMs: number, now: number): WindowMetrics {
+        const since = now - windowMs;
+        const predictions = this.predictions.filter(sample => sample.timestamp >= since);
+        const preloads = this.preloads.filter(sample => sample.timestamp >= since);
+        const lookups = this.cacheLookups.filter(sample => sample.timestamp >= since);
+        const durations = this.latencies
+            .filter(sample => sample.timestamp >= since)
+            .map(sample => sample.durationMs)
+            .sort((a, b) => a - b);
+
+        const preloadsUsed = preloads.filter(sample => sample.used).length;
+        const cacheHits = lookups.filter(sample => sample.hit).length;
+
+        return {
+            windowMs,
+            predictions: predictions.length,
+            hitAt1: ratio(predictions.filter(sample => sample.hitAt1).length, predictions.length),
+            hitAtK: ratio(predictions.filter(sample => sample.hitAtK).length, predictions.length),
+            preloadsStarted: preloads.length,
+            preloadsUsed,
+            preloadsWasted: preloads.length - preloadsUsed,
+            preloadUsageRate: ratio(preloadsUsed, preloads.length),
+            cacheHits,
+            cacheMisses: lookups.length - cacheHits,
+            cacheHitRate: ratio(cacheHits, lookups.length),
+            latencyMs: {
+                average: ratio(durations.reduce((sum, duration) => sum + duration, 0), durations.length),
+                p50: percentile(durations, 0.5),
+                p95: percentile(durations, 0.95),
+                max: durations.length ? durations[durations.length - 1] : 0,
+            },
+        };
+    }
+
+    public startReporting(callback: MetricsCallback, intervalMs: number = 60 * 1000): void {
+        this.stopReporting();
+        this.reportTimer = setInterval(() => {
+            try {
+                callback(this.getMetrics());
+            } catch (error) {
+                console.error('Error in metrics report callback:', error);
+            }
+        }, intervalMs);
+    }
+
+    public stopReporting(): void {
+        if (this.reportTimer) {
+            clearInterval(this.reportTimer);
+            this.reportTimer = null;
+        }
+    }
+
+    public reset(): void {
+        this.predictions = [];
+        this.latencies = [];
+        this.preloads = [];
+        this.cacheLookups = [];
+    }
+}
+
+export default MetricsCollector;
@@ -0,0 +1,69 @@
+import NavigationTracker from './navigationTracker';
+import ComponentTracker from './componentTracker';
+import ComponentPreloader from './componentPreloader';
+import InteractionTracker from './interactionTracker';
+import EventBus from './eventBus';
+
+function createTracker(basePath?: string) {
+    const events = new EventBus();
+    const componentTracker = new ComponentTracker(events);
+    const tracked: string[] = [];
+    const interactionTracker = { trackInteraction: (action: string) => tracked.push(action) } as unknown as InteractionTracker;
+    const navigation = new NavigationTracker({
+        interactionTracker,
+        componentTracker,
+        preloader: new ComponentPreloader({ componentTracker, events }),
+        basePath,
+        routes: [
+            { path: '/', componentId: 'home' },
+            { path: '/products/:id', componentId: 'product' },
+            { path: '/docs/*', componentId: 'docs' },
+        ],
+    });
+    return { navigation, tracked };
+}
+
+describe('NavigationTracker route matching', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('matches static, parameterised and wildcard routes', () => {
+        const { navigation } = createTracker();
+
+        expect(navigation.match('/')?.route.componentId).toBe('home');
+        expect(navigation.match('/products/42/')).toMatchObject({ action: 'navigate:/products/:id', params: { id: '42' } });
+        expect(navigation.match('/docs/guide/install')?.params).toEqual({ '*': 'guide/install' });
+        expect(navigation.match('/unknown')).toBeNull();
+    });
+
+    it('decodes parameters and keeps malformed escapes as they are', () => {
+        const { navigation } = createTracker();
+
+        expect(navigation.match('/products/caf%C3%A9')?.params.id).toBe('café');
+        expect(navigation.match('/products/100%')?.params.id).toBe('100%');
+        expect(navigation.match('/products/%E0%A4%A')?.params.id).toBe('%E0%A4%A');
+    });
+
+    it('only matches paths under the base path', () => {
+        const { navigation } = createTracker('/app/');
+
+        expect(navigation.match('/app/products/7')?.params.id).toBe('7');
+        expect(navigation.match('/app')?.route.componentId).toBe('home');
+        expect(navigation.match('/application')).toBeNull();
+    });
+
+    it('tracks each navigation once and ignores unknown routes', () => {
+        const { navigation, tracked } = createTracker();
+
+        navigation.handleNavigation('/products/1');
+        navigation.handleNavigation('/products/1');
+        navigation.handleNavigation('/missing');
+        navigation.handleNavigation('/');
+        expect(tracked).toEqual(['navigate:/products/:id', 'navigate:/']);
+    });
+});
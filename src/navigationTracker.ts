@@ -0,0 +1,238 @@
+//navigationTracker.ts
+import ComponentTracker from './componentTracker';
+import ComponentPreloader, { ComponentLoader } from './componentPreloader';
+import InteractionTracker from './interactionTracker';
+import PredictionModel from './predictionModel';
+import { Disposer } from './eventBus';
+import { PrefetchResource } from './resourcePrefetcher';
+
+export interface RouteDefinition {
+    path: string;
+    componentId: string;
+    action?: string;
+    type?: string;
+    loader?: ComponentLoader;
+    resources?: PrefetchResource[];
+}
+
+export interface RouteMatch {
+    route: RouteDefinition;
+    action: string;
+    params: Record<string, string>;
+}
+
+export interface PredictedRoute {
+    path: string;
+    componentId: string;
+    probability: number;
+}
+
+export interface NavigationTrackerOptions {
+    interactionTracker: InteractionTracker;
+    componentTracker?: ComponentTracker;
+    preloader?: ComponentPreloader;
+    model?: PredictionModel;
+    routes: RouteDefinition[];
+    basePath?: string;
+    actionPrefix?: string;
+    routeContextKey?: string | null;
+    trackReplace?: boolean;
+    trackInitial?: boolean;
+}
+
+export type RouterSubscribe = (listener: (pathname: string) => void) => Disposer | void;
+
+interface CompiledRoute {
+    route: RouteDefinition;
+    action: string;
+    pattern: RegExp;
+    paramNames: string[];
+}
+
+function compileRoute(path: string): { pattern: RegExp; paramNames: string[] } {
+    const paramNames: string[] = [];
+    const source = path
+        .replace(/\/+$/, '')
+        .split('/')
+        .map((segment) => {
+            if (segment === '*') {
+                paramNames.push('*');
+                return '(.*)';
+            }
+            if (segment.startsWith(':')) {
+                paramNames.push(segment.slice(1));
+                return '([^/]+)';
+            }
+            return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('/');
+    return { pattern: new RegExp(`^${source}/?$`, 'i'), paramNames };
+}
+
+function decodeSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        // Malformed escapes such as '%E0%A4%A' come from hand-typed URLs; keep them as they are.
+        return segment;
+    }
+}
+
+class NavigationTracker {
+    private interactionTracker: InteractionTracker;
+    private componentTracker: ComponentTracker;
+    private preloader: ComponentPreloader;
+    private model: PredictionModel | null;
+    private routes: CompiledRoute[];
+    private basePath: string;
+    private actionPrefix: string;
+    private routeContextKey: string | null;
+    private trackReplace: boolean;
+    private trackInitial: boolean;
+    private lastPathname: string | null;
+    private historyDisposers: Disposer[];
+    private routerDisposers: Disposer[];
+
+    constructor(options: NavigationTrackerOptions) {
+        this.interactionTracker = options.interactionTracker;
+        this.componentTracker = options.componentTracker ?? ComponentTracker.getInstance();
+        this.preloader = options.preloader ?? ComponentPreloader.getInstance();
+        this.model = options.model ?? null;
+        this.basePath = (options.basePath ?? '').replace(/\/+$/, '');
+        this.actionPrefix = options.actionPrefix ?? 'navigate:';
+        this.routeContextKey = options.routeContextKey === undefined ? 'route' : options.routeContextKey;
+        this.trackReplace = options.trackReplace ?? false;
+        this.trackInitial = options.trackInitial ?? true;
+        this.lastPathname = null;
+        this.historyDisposers = [];
+        this.routerDisposers = [];
+        this.routes = [];
+        options.routes.forEach(route => this.addRoute(route));
+    }
+
+    public addRoute(route: RouteDefinition): void {
+        const action = route.action ?? `${this.actionPrefix}${route.path}`;
+        this.routes.push({ route, action, ...compileRoute(route.path) });
+
+        if (!this.componentTracker.isTracked(route.componentId)) {
+            this.componentTracker.trackComponent(route.componentId, route.type ?? 'route', { path: route.path }, {
+                resources: route.resources,
+            });
+        } else if (route.resources) {
+            this.componentTracker.setResources(route.componentId, route.resources);
+        }
+        this.componentTracker.associateActionWithComponent(action, route.componentId);
+        if (route.loader && !this.preloader.hasLoader(route.componentId)) {
+            this.preloader.registerLoader(route.componentId, route.loader);
+        }
+    }
+
+    public match(pathname: string): RouteMatch | null {
+        const relative = this.stripBasePath(pathname);
+        if (relative === null) return null;
+
+        for (const compiled of this.routes) {
+            const result = compiled.pattern.exec(relative);
+            if (!result) continue;
+            const params: Record<string, string> = {};
+            compiled.paramNames.forEach((name, index) => {
+                if (result[index + 1] !== undefined) {
+                    params[name] = decodeSegment(result[index + 1]);
+                }
+            });
+            return { route: compiled.route, action: compiled.action, params };
+        }
+        return null;
+    }
+
+    public handleNavigation(pathname: string): RouteMatch | null {
+        if (pathname === this.lastPathname) return null;
+        this.lastPathname = pathname;
+
+        const matched = this.match(pathname);
+        if (!matched) return null;
+
+        const context = this.routeContextKey ? { [this.routeContextKey]: matched.route.path } : undefined;
+        this.interactionTracker.trackInteraction(matched.action, context);
+        return matched;
+    }
+
+    public start(): void {
+        if (this.historyDisposers.length) return;
+        if (typeof window === 'undefined' || !window.history) {
+            console.warn('NavigationTracker: History API недоступен, используйте attachRouter');
+            return;
+        }
+
+        const history = window.history;
+        const notify = () => this.handleNavigation(window.location.pathname);
+        this.historyDisposers.push(this.patchHistory(history, 'pushState', notify));
+        if (this.trackReplace) {
+            this.historyDisposers.push(this.patchHistory(history, 'replaceState', notify));
+        }
+        window.addEventListener('popstate', notify);
+        this.historyDisposers.push(() => window.removeEventListener('popstate', notify));
+
+        if (this.trackInitial) {
+            notify();
+        }
+    }
+
+    public attachRouter(subscribe: RouterSubscribe): Disposer {
+        const unsubscribe = subscribe((pathname) => this.handleNavigation(pathname));
+        const dispose = () => {
+            this.routerDisposers = this.routerDisposers.filter(existing => existing !== dispose);
+            unsubscribe?.();
+        };
+        this.routerDisposers.push(dispose);
+        return dispose;
+    }
+
+    public stop(): void {
+        const disposers = [...this.historyDisposers, ...this.routerDisposers];
+        this.historyDisposers = [];
+        this.routerDisposers = [];
+        disposers.forEach(dispose => dispose());
+    }
+
+    public getPredictedRoutes(k: number = 3): PredictedRoute[] {
+        if (!this.model) {
+            console.warn('PredictionModel is not attached to NavigationTracker');
+            return [];
+        }
+
+        const routesByAction = new Map(this.routes.map(compiled => [compiled.action, compiled.route]));
+        const predicted: PredictedRoute[] = [];
+        for (const candidate of this.model.predictTopK(Number.MAX_SAFE_INTEGER)) {
+            const route = routesByAction.get(candidate.action);
+            if (!route) continue;
+            predicted.push({ path: route.path, componentId: route.componentId, probability: candidate.probability });
+            if (predicted.length >= k) break;
+        }
+        return predicted;
+    }
+
+    private stripBasePath(pathname: string): string | null {
+        if (!this.basePath) return pathname;
+        if (pathname !== this.basePath && !pathname.startsWith(`${this.basePath}/`)) return null;
+        return pathname.slice(this.basePath.length) || '/';
+    }
+
+    private patchHistory(history: History, method: 'pushState' | 'replaceState', notify: () => void): Disposer {
+        const original = history[method];
+        const patched = function (this: History, ...args: Parameters<History['pushState']>) {
+            const result = original.apply(this, args);
+            notify();
+            return result;
+        };
+        history[method] = patched;
+        return () => {
+            // Another library may have wrapped the method after us; only restore if ours is still in place.
+            if (history[method] === patched) {
+                history[method] = original;
+            }
+        };
+    }
+}
+
+export default NavigationTracker;
@@ -0,0 +1,10 @@
+//node.ts
+import { parseInteractionLog } from './backtest';
+import { InteractionRecord } from './databaseManager';
+
+export { default as FileStorageAdapter } from "./fileStorageAdapter";
+
+export async function loadInteractionLog(filePath: string): Promise<InteractionRecord[]> {
+    const fs = await import('fs/promises');
+    return parseInteractionLog(await fs.readFile(filePath, 'utf8'));
+}
@@ -0,0 +1,259 @@
+import { PredictiveLibrary } from './createPredictiveLibrary';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+import { StorageAdapter } from './storageAdapter';
+import { EnsemblePredictor, FrequencyPredictor, Predictor, RecencyPredictor } from './predictor';
+import { InteractionRecord } from './databaseManager';
+import { createTestLibrary } from './testUtils';
+
+const START = Date.UTC(2024, 0, 1, 12);
+
+function createLibrary(storage: StorageAdapter, predictor: () => Predictor): PredictiveLibrary {
+    return createTestLibrary({ storage, model: { historyLength: 5 }, predictor: predictor() });
+}
+
+// Early interactions are all 'home', so the full log and the recent history disagree on what is frequent.
+function interaction(i: number): InteractionRecord {
+    const actionType = i < 20 ? 'home' : ['search', 'product'][i % 2];
+    return { componentId: actionType, actionType, timestamp: START + i * 60 * 1000, sessionId: 'session' };
+}
+
+async function record(library: PredictiveLibrary, count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+        await library.databaseManager.saveInteraction(interaction(i));
+    }
+}
+
+class CountingPredictor implements Predictor {
+    public readonly name = 'counting';
+    public observed = 0;
+
+    public observe(): void {
+        this.observed++;
+    }
+
+    public predict() {
+        return new Map<string, number>();
+    }
+
+    public reset(): void {
+        this.observed = 0;
+    }
+}
+
+describe('PredictionModel predictor restore', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('restores a custom predictor from the snapshot rather than the recent history', async () => {
+        const storage = new MemoryStorageAdapter();
+        const predictor = () => new EnsemblePredictor([new FrequencyPredictor(), new RecencyPredictor()]);
+        const first = createLibrary(storage, predictor);
+        await record(first, 30);
+        await first.initialize();
+        const expected = first.model.predictTopK(3, START + 31 * 60 * 1000);
+        first.dispose();
+
+        const second = createLibrary(storage, predictor);
+        await second.initialize();
+        expect(second.model.predictTopK(3, START + 31 * 60 * 1000)).toEqual(expected);
+        second.dispose();
+    });
+
+    it('keeps learned ensemble weights across a restart', async () => {
+        const storage = new MemoryStorageAdapter();
+        const predictor = () => new EnsemblePredictor([new FrequencyPredictor(), new RecencyPredictor()], { learnWeights: true, k: 1 });
+        const first = createLibrary(storage, predictor);
+        await first.initialize();
+        for (let i = 0; i < 20; i++) {
+            const actionType = ['home', 'search', 'product'][i % 3];
+            first.model.predictTopK(3, START + i * 60 * 1000);
+            first.model.observe({ componentId: actionType, actionType, timestamp: START + i * 60 * 1000, sessionId: 'session' });
+        }
+        await first.model.saveSnapshot();
+        const weights = (first.model.getPredictor() as EnsemblePredictor).getWeights();
+        first.dispose();
+
+        const second = createLibrary(storage, predictor);
+        await second.initialize();
+        expect((second.model.getPredictor() as EnsemblePredictor).getWeights()).toEqual(weights);
+        expect(weights.frequency).not.toBeCloseTo(0.5);
+        second.dispose();
+    });
+
+    it('replays the whole stored log for predictors that cannot save their state', async () => {
+        const storage = new MemoryStorageAdapter();
+        const first = createLibrary(storage, () => new CountingPredictor());
+        await record(first, 30);
+        await first.initialize();
+        first.dispose();
+
+        const counting = new CountingPredictor();
+        const second = createLibrary(storage, () => counting);
+        await second.initialize();
+        expect(counting.observed).toBe(30);
+        second.dispose();
+    });
+});
+
+describe('PredictionModel configured timezone', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    // Midnight UTC is 09:00 in Tokyo and noon UTC is 21:00 there.
+    const TOKYO_MORNING = Date.UTC(2024, 0, 1, 0);
+    const TOKYO_EVENING = Date.UTC(2024, 0, 1, 12);
+    let now: number;
+
+    beforeEach(() => {
+        now = TOKYO_MORNING - DAY;
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stamps tracked interactions with the configured timezone and scores them in it', async () => {
+        const library = createTestLibrary({ temporal: { timezone: 'Asia/Tokyo' } });
+        await library.initialize();
+        library.componentTracker.trackComponent('news', 'page');
+        library.componentTracker.trackComponent('tv', 'page');
+        library.componentTracker.associateActionWithComponent('news', 'news');
+        library.componentTracker.associateActionWithComponent('tv', 'tv');
+        const saved: InteractionRecord[] = [];
+        library.events.on('interactionSaved', (interaction) => saved.push(interaction));
+
+        for (let day = 0; day < 7; day++) {
+            now = TOKYO_MORNING + day * DAY;
+            library.interactionTracker.trackInteraction('news');
+            now = TOKYO_EVENING + day * DAY;
+            library.interactionTracker.trackInteraction('tv');
+        }
+        for (let tick = 0; tick < 100 && saved.length < 14; tick++) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+
+        expect(saved).toHaveLength(14);
+        expect(saved.every(interaction => interaction.timezone === 'Asia/Tokyo')).toBe(true);
+        const scores = (timestamp: number) => Object.fromEntries(
+            library.model.predictTopK(2, timestamp).map(candidate => [candidate.action, candidate.timeScore])
+        );
+        expect(scores(TOKYO_MORNING + 7 * DAY).news).toBeGreaterThan(0.9);
+        expect(scores(TOKYO_EVENING + 7 * DAY).tv).toBeGreaterThan(0.9);
+        library.dispose();
+    });
+});
+
+describe('PredictionModel sessions', () => {
+    const HOUR = 60 * 60 * 1000;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Five sessions two hours apart, each going home -> search -> product a minute apart.
+    async function recordSessions(library: PredictiveLibrary): Promise<number> {
+        await library.initialize();
+        let timestamp = START;
+        for (let session = 0; session < 5; session++) {
+            timestamp = START + session * 2 * HOUR;
+            for (const [step, actionType] of ['home', 'search', 'product'].entries()) {
+                const at = timestamp + step * 60 * 1000;
+                library.model.observe({ componentId: actionType, actionType, timestamp: at, sessionId: library.sessionManager.touch(at) });
+            }
+        }
+        return timestamp + 2 * 60 * 1000;
+    }
+
+    const sequenceScores = (library: PredictiveLibrary, timestamp: number) => Object.fromEntries(
+        library.model.predictTopK(3, timestamp).map(candidate => [candidate.action, candidate.sequenceScore])
+    );
+
+    it('does not learn transitions across session boundaries', async () => {
+        const library = createTestLibrary({ model: { weightTime: 0 } });
+        const last = await recordSessions(library);
+
+        expect(sequenceScores(library, last + 60 * 1000).home ?? 0).toBe(0);
+        library.dispose();
+    });
+
+    it('predicts how sessions usually start once the current one has expired', async () => {
+        const library = createTestLibrary({ model: { weightTime: 0 } });
+        const last = await recordSessions(library);
+
+        const [best] = library.model.predictTopK(1, last + HOUR);
+        expect(best.action).toBe('home');
+        expect(best.sequenceScore).toBeGreaterThan(0.5);
+        library.dispose();
+    });
+});
+
+describe('PredictionModel context backoff', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // On mobile the user mostly opens the cart, on desktop mostly searches.
+    async function createTrainedLibrary(context: { keys?: string[]; prior?: number } = {}): Promise<PredictiveLibrary> {
+        const library = createTestLibrary({ model: { weightTime: 0 }, context });
+        await library.initialize();
+        for (let i = 0; i < 40; i++) {
+            const device = i % 2 ? 'mobile' : 'desktop';
+            const actionType = (device === 'mobile') === (i % 10 !== 1) ? 'cart' : 'search';
+            library.model.observe({
+                componentId: actionType,
+                actionType,
+                timestamp: START + i * 60 * 1000,
+                sessionId: `session-${i}`,
+                context: { device },
+            });
+        }
+        return library;
+    }
+
+    const LATER = START + 60 * 60 * 1000;
+    const probabilities = (library: PredictiveLibrary, attributes: Record<string, string>) => Object.fromEntries(
+        library.model.predictTopK(2, LATER, attributes).map(candidate => [candidate.action, candidate.probability])
+    );
+
+    it('shifts the prediction towards what the user does in the current context', async () => {
+        const library = await createTrainedLibrary();
+
+        expect(library.model.predictTopK(1, LATER, { device: 'mobile' })[0].action).toBe('cart');
+        expect(library.model.predictTopK(1, LATER, { device: 'desktop' })[0].action).toBe('search');
+        library.dispose();
+    });
+
+    it('falls back to the context-free prediction for unseen or ignored context', async () => {
+        const library = await createTrainedLibrary();
+        const routesOnly = await createTrainedLibrary({ keys: ['route'] });
+
+        expect(probabilities(library, { device: 'tv' })).toEqual(probabilities(library, {}));
+        expect(probabilities(routesOnly, { device: 'mobile' })).toEqual(probabilities(routesOnly, {}));
+        library.dispose();
+        routesOnly.dispose();
+    });
+
+    it('trusts sparse context counts less as the prior grows', async () => {
+        const weak = await createTrainedLibrary({ prior: 1 });
+        const strong = await createTrainedLibrary({ prior: 10000 });
+        const base = probabilities(strong, {});
+
+        expect(probabilities(weak, { device: 'mobile' }).cart).toBeGreaterThan(0.7);
+        expect(probabilities(strong, { device: 'mobile' }).cart).toBeCloseTo(base.cart, 2);
+        weak.dispose();
+        strong.dispose();
+    });
+});
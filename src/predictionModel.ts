@@ -1,28 +1,99 @@
-import DatabaseManager, { InteractionRecord } from './databaseManager';
+import DatabaseManager, { InteractionAggregates, InteractionRecord, StoredDataExport } from './databaseManager';
 import ComponentPreloader from './componentPreloader';
 import ComponentTracker from './componentTracker';
+import { KeyProvider, createEnvironmentKeyProvider } from './keyProvider';
+import SessionManager from './sessionManager';
+import UploadQueue from './uploadQueue';
+import DifferentialPrivacy, { PrivacyOptions, combineGuarantees } from './privacy';
+import { toBase64 } from './encoding';
+import ConsentManager, { ConsentState } from './consentManager';
+import MetricsCollector, { MetricsSnapshot } from './metricsCollector';
+import { PredictionContext, PredictionDistribution, Predictor, PredictorFactory, normalizeDistribution } from './predictor';
+import {
+    TemporalOptions,
+    TimeBucketScheme,
+    getBucketWeights,
+    getDefaultTimezone,
+    getLocalTime,
+    getTimeBucket,
+    getTimezoneOffsetMinutes,
+} from './temporal';
+import { ContextOptions, InteractionContext, getContextKeys } from './context';
+import EventBus, { Disposer } from './eventBus';
 
 type InteractionData = {
     componentId: string;
     actionType: string;
     timestamp: number;
-    deviceType?: string;
     sessionId?: string;
-    region?: string;
+    context?: InteractionContext;
 };
 
-const ENCRYPTION_KEY_HEX = process.env.ENCRYPTION_KEY;
-if (!ENCRYPTION_KEY_HEX) {
-  throw new Error('ENCRYPTION_KEY is not defined in .env or build configuration');
+type ModelState = {
+    transitionMatrix: Array<[number, Array<[string, Array<[string, number]>]>]>;
+    timePatterns: Array<[string, Array<[number, number]>]>;
+    globalActionCounter: Array<[string, number]>;
+    sessionStartPatterns?: Array<[string, number]>;
+    timeBuckets?: TimeBucketScheme;
+    contextPatterns?: Array<[string, Array<[string, number]>]>;
+    predictor?: { name: string; state: unknown };
+    userHistory: InteractionData[];
+};
+
+const SNAPSHOT_VERSION = 1;
+
+export type PredictionCandidate = {
+    action: string;
+    componentId: string | null;
+    probability: number;
+    sequenceScore: number;
+    timeScore: number;
+};
+
+export interface ModelHyperparameters {
+    historyLength?: number;
+    decayLambda?: number;
+    smoothingFactor?: number;
+    weightSequence?: number;
+    weightTime?: number;
+    maxPatternLength?: number;
+    minActionsThreshold?: number;
+    snapshotInterval?: number;
+}
+
+export interface PredictionModelOptions extends ModelHyperparameters {
+    serverUrl?: string | null;
+    databaseManager?: DatabaseManager;
+    componentTracker?: ComponentTracker;
+    preloader?: ComponentPreloader;
+    keyProvider?: KeyProvider;
+    sessionManager?: SessionManager;
+    uploadQueue?: UploadQueue;
+    privacy?: PrivacyOptions;
+    consentManager?: ConsentManager;
+    metrics?: MetricsCollector;
+    clock?: () => number;
+    predictor?: Predictor | PredictorFactory;
+    temporal?: TemporalOptions;
+    context?: ContextOptions;
+    events?: EventBus;
 }
-if (ENCRYPTION_KEY_HEX.length !== 64 || !/^[0-9a-fA-F]{64}$/.test(ENCRYPTION_KEY_HEX)) {
-  throw new Error(`ENCRYPTION_KEY must be a 64-character hexadecimal string. Got: "${ENCRYPTION_KEY_HEX}"`);
+
+export interface UserDataExport extends StoredDataExport {
+    exportedAt: number;
+    appId: string | null;
+    consent: ConsentState;
+    sessionId: string | null;
+    model: ModelState;
 }
-const ENCRYPTION_KEY = new Uint8Array(
-  ENCRYPTION_KEY_HEX.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-);
+
+const UPLOAD_PATH = '/upload-anonymous-data';
+const ERASE_PATH = '/delete-user-data';
+const APP_ID_STORAGE_KEY = 'prediction_model_app_id';
+const LEGACY_STORAGE_KEYS = ['ivMap'];
 
 class PredictionModel {
+    private static instance: PredictionModel;
     private historyLength: number;
     private decayLambda: number;
     private smoothingFactor: number;
@@ -30,81 +101,144 @@ class PredictionModel {
     private transitionMatrix: Map<number, Map<string, Map<string, number>>>;
     private globalActionCounter: Map<string, number>;
     private timePatterns: Map<string, Map<number, number>>;
+    private sessionStartPatterns: Map<string, number>;
+    private sessionManager: SessionManager;
     private componentTracker: ComponentTracker;
+    private databaseManager: DatabaseManager;
+    private preloader: ComponentPreloader;
+    private keyProvider: KeyProvider;
+    private initialization: Promise<void> | null;
     private maxPatternLength: number;
     private weightSequence: number;
     private weightTime: number;
     private appId: string | null;
-    private serverUrl: string;
+    private serverUrl: string | null;
     private minActionsThreshold: number;
-    private dailyUploadInterval: NodeJS.Timeout | null;
-
-    constructor(
-        serverUrl: string = 'http://localhost:3001',
-        historyLength = 100,
-        decayLambda = 0.0005,
-        smoothingFactor = 0.1,
-        weightSequence = 0.7,
-        weightTime = 0.3,
-        maxPatternLength = 5,
-        minActionsThreshold = 50
-    ) {
+    private dailyUploadTimeout: ReturnType<typeof setTimeout> | null;
+    private dailyUploadInterval: ReturnType<typeof setInterval> | null;
+    private events: EventBus;
+    private disposers: Disposer[];
+    private uploadQueue: UploadQueue | null;
+    private globalModelPending: boolean;
+    private privacy: DifferentialPrivacy;
+    private consentManager: ConsentManager;
+    private metrics: MetricsCollector;
+    private pendingPrediction: string[] | null;
+    private clock: () => number;
+    private defaultPredictor: Predictor;
+    private timeBucketScheme: TimeBucketScheme;
+    private hourSmoothing: number;
+    private dayOfWeekPrior: number;
+    private timezone: string | undefined;
+    private contextPatterns: Map<string, Map<string, number>>;
+    private contextKeys: string[] | undefined;
+    private contextPrior: number;
+    private currentContext: InteractionContext;
+    private predictor: Predictor;
+    private snapshotInterval: number;
+    private interactionsSinceSnapshot: number;
+    private lastProcessedTimestamp: number;
+
+    constructor(options: PredictionModelOptions = {}) {
         this.appId = null;
-        this.serverUrl = serverUrl;
-        this.historyLength = historyLength;
-        this.decayLambda = decayLambda;
-        this.smoothingFactor = smoothingFactor;
-        this.weightSequence = weightSequence;
-        this.weightTime = weightTime;
-        this.maxPatternLength = maxPatternLength;
-        this.minActionsThreshold = minActionsThreshold;
+        this.serverUrl = options.serverUrl ?? null;
+        this.historyLength = options.historyLength ?? 100;
+        this.decayLambda = options.decayLambda ?? 0.0005;
+        this.smoothingFactor = options.smoothingFactor ?? 0.1;
+        this.weightSequence = options.weightSequence ?? 0.7;
+        this.weightTime = options.weightTime ?? 0.3;
+        this.maxPatternLength = options.maxPatternLength ?? 5;
+        this.minActionsThreshold = options.minActionsThreshold ?? 50;
+        this.snapshotInterval = options.snapshotInterval ?? 50;
+        this.interactionsSinceSnapshot = 0;
+        this.lastProcessedTimestamp = 0;
 
         this.userHistory = [];
         this.transitionMatrix = new Map();
         this.globalActionCounter = new Map();
         this.timePatterns = new Map();
-        this.componentTracker = ComponentTracker.getInstance();
+        this.sessionStartPatterns = new Map();
+        this.sessionManager = options.sessionManager ?? SessionManager.getInstance();
+        this.componentTracker = options.componentTracker ?? ComponentTracker.getInstance();
+        this.databaseManager = options.databaseManager ?? DatabaseManager.getInstance();
+        this.preloader = options.preloader ?? ComponentPreloader.getInstance();
+        this.keyProvider = options.keyProvider ?? createEnvironmentKeyProvider();
+        this.dailyUploadTimeout = null;
         this.dailyUploadInterval = null;
+        this.events = options.events ?? EventBus.getInstance();
+        this.disposers = [];
+        this.initialization = null;
+        this.globalModelPending = false;
+        this.privacy = new DifferentialPrivacy(options.privacy);
+        this.consentManager = options.consentManager ?? ConsentManager.getInstance();
+        this.metrics = options.metrics ?? this.preloader.getMetricsCollector();
+        this.pendingPrediction = null;
+        this.clock = options.clock ?? (() => Date.now());
+        this.timeBucketScheme = options.temporal?.dayOfWeek ? 'week-hour' : 'hour';
+        this.hourSmoothing = options.temporal?.hourSmoothing ?? 0.5;
+        this.dayOfWeekPrior = options.temporal?.dayOfWeekPrior ?? 10;
+        this.timezone = options.temporal?.timezone ?? getDefaultTimezone();
+        this.contextPatterns = new Map();
+        this.contextKeys = options.context?.keys;
+        this.contextPrior = options.context?.prior ?? 5;
+        this.currentContext = {};
+        this.defaultPredictor = {
+            name: 'markov-time',
+            observe: () => undefined,
+            predict: (context) => this.getBlendedDistribution(context.timestamp),
+            // Its state is the model's own and travels in the same snapshot.
+            serialize: () => null,
+            restore: () => true,
+        };
+        this.predictor = typeof options.predictor === 'function'
+            ? options.predictor(this.defaultPredictor)
+            : options.predictor ?? this.defaultPredictor;
+        this.uploadQueue = options.uploadQueue
+            ?? (this.serverUrl ? new UploadQueue(this.serverUrl, this.databaseManager.getStorageAdapter()) : null);
+        if (this.uploadQueue) {
+            this.uploadQueue.setHooks({
+                beforeFlush: (path) => {
+                    if (path === ERASE_PATH) return Promise.resolve(true);
+                    return this.consentManager.isGranted() ? this.ensureRegistered() : Promise.resolve(false);
+                },
+                prepareBody: (body) => ({ appId: this.appId, ...body }),
+            });
+            this.uploadQueue.registerBatcher(UPLOAD_PATH, (bodies) => {
+                const guarantees = bodies.map(body => body.privacy).filter(Boolean);
+                return {
+                    interactions: bodies.flatMap(body => body.interactions),
+                    privacy: guarantees.length ? combineGuarantees(guarantees) : undefined,
+                };
+            });
+        }
 
-        const databaseManager = DatabaseManager.getInstance();
-        databaseManager.onInteractionSaved((interaction) => this.updateModel(interaction));
-    }
-
-    private ivMap: Map<string, string> = new Map();
-
-    private loadIvMap() {
-        const raw = localStorage.getItem('ivMap');
-        if (raw) this.ivMap = new Map(JSON.parse(raw));
+        this.disposers.push(this.consentManager.onChange((state) => this.handleConsentChange(state)));
+        this.preloader.setPredictionModel(this);
+        this.disposers.push(this.databaseManager.onInteractionSaved((interaction) => this.updateModel(interaction)));
     }
 
-    private saveIvMap() {
-        localStorage.setItem('ivMap', JSON.stringify(Array.from(this.ivMap.entries())));
+    public static getInstance(): PredictionModel {
+        if (!PredictionModel.instance) {
+            PredictionModel.instance = new PredictionModel({ serverUrl: 'http://localhost:3001' });
+            PredictionModel.instance.initialize();
+        }
+        return PredictionModel.instance;
     }
 
-    private async encryptDeterministic(data: string): Promise<{ ciphertext: string; iv: string }> {
-        let ivBase64 = this.ivMap.get(data);
-        if (!ivBase64) {
-          const iv = crypto.getRandomValues(new Uint8Array(12));
-          ivBase64 = btoa(String.fromCharCode(...iv));
-          this.ivMap.set(data, ivBase64);
-          this.saveIvMap();
-        }
-        const ivBytes = Uint8Array.from(atob(ivBase64), c => c.charCodeAt(0));
+    private async encryptDeterministic(data: string, period: number): Promise<{ ciphertext: string; iv: string }> {
+        // The IV is derived per privacy period, so an action's ciphertext changes from one period to the next.
+        const indexKey = this.keyProvider.getIndexKey ? await this.keyProvider.getIndexKey() : null;
+        const ivBytes = indexKey
+            ? new Uint8Array(await crypto.subtle.sign('HMAC', indexKey, new TextEncoder().encode(`${period}:${data}`))).slice(0, 12)
+            : crypto.getRandomValues(new Uint8Array(12));
         const key = await this.getCryptoKey();
         const encoded = new TextEncoder().encode(data);
         const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: ivBytes }, key, encoded);
-        const ciphertext = btoa(String.fromCharCode(...new Uint8Array(ct)));
-        return { ciphertext, iv: ivBase64 };
+        return { ciphertext: toBase64(new Uint8Array(ct)), iv: toBase64(ivBytes) };
     }
 
     private async getCryptoKey(): Promise<CryptoKey> {
-        return await crypto.subtle.importKey(
-            'raw',
-            ENCRYPTION_KEY,
-            { name: 'AES-GCM' },
-            false,
-            ['encrypt', 'decrypt']
-        );
+        return this.keyProvider.getKey();
     }
 
     private async encrypt(data: string): Promise<{ ciphertext: string; iv: string }> {
@@ -139,16 +273,49 @@ class PredictionModel {
         }
     }
 
-    public async initialize(): Promise<void> {
+    public initialize(): Promise<void> {
+        if (!this.initialization) {
+            this.initialization = this.runInitialization();
+        }
+        return this.initialization;
+    }
+
+    private async runInitialization(): Promise<void> {
         try {
-            await this.registerApp();
-            this.scheduleDailyUpload();
-            const databaseManager = DatabaseManager.getInstance();
-            const allInteractions = await databaseManager.getAllInteractions();
-            this.processHistoricalData(allInteractions);
+            if (this.serverUrl) {
+                if (this.consentManager.isGranted()) {
+                    await this.registerApp();
+                }
+                this.scheduleDailyUpload();
+                this.uploadQueue?.start();
+            }
+            const databaseManager = this.databaseManager;
+            const snapshot = await databaseManager.getLatestSnapshot<ModelState>();
+            let interactions: InteractionRecord[];
+            let restoredFromSnapshot = false;
+            if (snapshot && snapshot.version === SNAPSHOT_VERSION
+                && (snapshot.state.timeBuckets ?? 'hour') === this.timeBucketScheme) {
+                this.restoreState(snapshot.state);
+                await this.restorePredictor(snapshot.state, snapshot.lastTimestamp);
+                this.lastProcessedTimestamp = snapshot.lastTimestamp;
+                restoredFromSnapshot = true;
+                interactions = await databaseManager.getInteractionsSince(snapshot.lastTimestamp);
+                console.log(`Model snapshot restored, replaying ${interactions.length} newer interactions`);
+            } else {
+                const aggregates = await databaseManager.getAggregates();
+                if (aggregates) {
+                    this.applyAggregates(aggregates);
+                }
+                interactions = await databaseManager.getAllInteractions();
+            }
+            this.processHistoricalData(interactions);
+            if (interactions.length > 0) {
+                await this.saveSnapshot();
+            }
             await this.checkAndFetchGlobalModel();
-            this.predictNextAction(Date.now());
+            this.predictNextAction(this.clock());
             console.log('PredictionModel initialized successfully. userHistory length:', this.userHistory.length);
+            this.events.emit('modelInitialized', { historyLength: this.userHistory.length, restoredFromSnapshot });
         } catch (error) {
             console.error('Error initializing PredictionModel:', error);
         }
@@ -160,11 +327,10 @@ class PredictionModel {
     }
 
     private async registerApp(): Promise<void> {
-        const storageKey = 'prediction_model_app_id';
         let storedAppId = null;
 
         if (typeof window !== 'undefined' && window.localStorage) {
-            storedAppId = localStorage.getItem(storageKey);
+            storedAppId = localStorage.getItem(APP_ID_STORAGE_KEY);
         }
 
         if (storedAppId) {
@@ -181,7 +347,7 @@ class PredictionModel {
             if (!response.ok) throw new Error(data.error || 'Failed to register app');
             this.appId = data.appId;
             if (typeof window !== 'undefined' && window.localStorage && this.appId) {
-                localStorage.setItem(storageKey, this.appId);
+                localStorage.setItem(APP_ID_STORAGE_KEY, this.appId);
             }
             console.log('App registered with appId:', this.appId);
         } catch (error) {
@@ -190,53 +356,96 @@ class PredictionModel {
         }
     }
 
+    private isRegistered(): boolean {
+        return !!this.appId && !this.appId.startsWith('fallback-');
+    }
+
+    // registerApp only runs with consent, so a user who withdrew it still has an app id in localStorage that the server knows.
+    private getKnownAppId(): string | null {
+        if (this.isRegistered()) return this.appId;
+        if (typeof window === 'undefined' || !window.localStorage) return null;
+        const storedAppId = localStorage.getItem(APP_ID_STORAGE_KEY);
+        return storedAppId && !storedAppId.startsWith('fallback-') ? storedAppId : null;
+    }
+
+    private async ensureRegistered(): Promise<boolean> {
+        if (!this.isRegistered()) {
+            await this.registerApp();
+            if (!this.isRegistered()) return false;
+        }
+        if (this.globalModelPending) {
+            this.checkAndFetchGlobalModel();
+        }
+        return true;
+    }
+
     private scheduleDailyUpload(): void {
         const now = new Date();
         const midnight = new Date(now);
         midnight.setHours(24, 0, 0, 0);
         const timeUntilMidnight = midnight.getTime() - now.getTime();
 
-        setTimeout(() => {
+        this.dailyUploadTimeout = setTimeout(() => {
+            this.dailyUploadTimeout = null;
             this.uploadAnonymizedData();
             this.dailyUploadInterval = setInterval(() => this.uploadAnonymizedData(), 24 * 60 * 60 * 1000);
         }, timeUntilMidnight);
     }
 
+    public dispose(): void {
+        this.disposers.forEach(dispose => dispose());
+        this.disposers = [];
+        this.uploadQueue?.stop();
+        if (this.dailyUploadTimeout) {
+            clearTimeout(this.dailyUploadTimeout);
+            this.dailyUploadTimeout = null;
+        }
+        if (this.dailyUploadInterval) {
+            clearInterval(this.dailyUploadInterval);
+            this.dailyUploadInterval = null;
+        }
+    }
+
     private async uploadAnonymizedData(): Promise<void> {
-        if (!this.userHistory.length || !this.appId) return;
+        if (!this.userHistory.length || !this.uploadQueue || !this.consentManager.isGranted()) return;
     
         const counts: Record<string, number> = {};
         this.userHistory.forEach(({ actionType }) => {
           counts[actionType] = (counts[actionType] || 0) + 1;
         });
+
+        const privatized = this.privacy.privatizeCounts(counts);
+        if (!privatized) return;
     
         const anonymizedData: Array<{ actionType: string; actionTypeIV: string; count: number }> = [];
-        for (const [actionType, count] of Object.entries(counts)) {
-          const { ciphertext, iv } = await this.encryptDeterministic(actionType);
+        for (const [actionType, count] of Object.entries(privatized.counts)) {
+          const { ciphertext, iv } = await this.encryptDeterministic(actionType, privatized.guarantee.period);
           anonymizedData.push({ actionType: ciphertext, actionTypeIV: iv, count });
         }
     
-        try {
-          const res = await fetch(`${this.serverUrl}/upload-anonymous-data`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ appId: this.appId, interactions: anonymizedData })
-          });
-          if (!res.ok) throw new Error(res.statusText);
-          console.log('Данные отправлены:', anonymizedData);
-        } catch (e) {
-          console.error('Ошибка отправки:', e);
-        }
-      }
-      
+        const dayKey = new Date().toISOString().slice(0, 10);
+        await this.uploadQueue.enqueue(
+            UPLOAD_PATH,
+            { interactions: anonymizedData, privacy: privatized.guarantee },
+            `${UPLOAD_PATH}:${dayKey}`
+        );
+        console.log('Данные поставлены в очередь на отправку:', anonymizedData);
+        await this.uploadQueue.flush();
+    }
 
     private async checkAndFetchGlobalModel(): Promise<void> {
-        if (this.userHistory.length >= this.minActionsThreshold && this.transitionMatrix.size > 0 || !this.appId) {
+        if (this.userHistory.length >= this.minActionsThreshold && this.transitionMatrix.size > 0 || !this.serverUrl) {
+            this.globalModelPending = false;
+            return;
+        }
+        if (!this.isRegistered()) {
+            this.globalModelPending = true;
             return;
         }
 
         try {
-            const response = await fetch(`${this.serverUrl}/global-model/${this.appId}`);
+            const query = this.timezone ? `?timezone=${encodeURIComponent(this.timezone)}` : '';
+            const response = await fetch(`${this.serverUrl}/global-model/${this.appId}${query}`);
             const data = await response.json();
             if (!response.ok) throw new Error(data.error || 'Failed to fetch global model');
 
@@ -247,45 +456,259 @@ class PredictionModel {
             }
 
             this.timePatterns = new Map();
+            const hourShift = this.getHourShift(data.timezone);
             for (const [encryptedAction, hours] of Object.entries(data.timePatterns)) {
                 const decryptedAction = await this.decrypt(encryptedAction, data.timePatternsIVs[encryptedAction]);
-                const hourMap = new Map(Object.entries(hours as Record<string, number>).map(([h, c]) => [Number(h), Number(c)]));
-                this.timePatterns.set(decryptedAction, hourMap);
+                const timeData = new Map<number, number>();
+                for (const [hour, count] of Object.entries(hours as Record<string, number>)) {
+                    this.addHourCount(timeData, Number(hour) + hourShift, Number(count));
+                }
+                this.timePatterns.set(decryptedAction, timeData);
             }
+            this.globalModelPending = false;
             console.log('Global model fetched successfully');
         } catch (error) {
+            this.globalModelPending = true;
             console.error('Error fetching global model:', error);
         }
     }
 
+    private handleConsentChange(state: ConsentState): void {
+        if (!this.uploadQueue) return;
+        if (state === 'granted') {
+            this.uploadQueue.flush();
+        } else {
+            this.uploadQueue.discard(UPLOAD_PATH)
+                .catch((error) => console.error('Error discarding queued uploads:', error));
+        }
+    }
+
+    public async exportUserData(): Promise<UserDataExport> {
+        return {
+            exportedAt: Date.now(),
+            appId: this.getKnownAppId(),
+            consent: this.consentManager.getState(),
+            sessionId: this.sessionManager.getCurrentSessionId(),
+            model: this.serializeState(),
+            ...(await this.databaseManager.exportData()),
+        };
+    }
+
+    public async eraseUserData(): Promise<void> {
+        const appId = this.getKnownAppId();
+
+        // Clearing storage also empties the outbound queue, so the delete request is queued afterwards.
+        await this.databaseManager.eraseAllData();
+        this.resetState();
+        this.appId = null;
+        this.privacy.reset();
+        this.sessionManager.endSession();
+
+        if (appId && this.uploadQueue) {
+            await this.uploadQueue.enqueue(ERASE_PATH, { appId }, `${ERASE_PATH}:${appId}`);
+        }
+        if (typeof window !== 'undefined' && window.localStorage) {
+            [APP_ID_STORAGE_KEY, ...LEGACY_STORAGE_KEYS].forEach(key => localStorage.removeItem(key));
+        }
+        console.log('User data erased');
+
+        if (appId && this.uploadQueue) {
+            await this.uploadQueue.flush();
+        }
+    }
+
+    private resetState(): void {
+        this.userHistory = [];
+        this.transitionMatrix = new Map();
+        this.globalActionCounter = new Map();
+        this.timePatterns = new Map();
+        this.sessionStartPatterns = new Map();
+        this.contextPatterns = new Map();
+        this.currentContext = {};
+        this.lastProcessedTimestamp = 0;
+        this.interactionsSinceSnapshot = 0;
+        this.pendingPrediction = null;
+        this.predictor.reset?.();
+    }
+
+    private serializeState(): ModelState {
+        return {
+            transitionMatrix: Array.from(this.transitionMatrix.entries()).map(([length, level]) => [
+                length,
+                Array.from(level.entries()).map(([pattern, transitions]) => [pattern, Array.from(transitions.entries())]),
+            ]),
+            timePatterns: Array.from(this.timePatterns.entries()).map(([action, hours]) => [action, Array.from(hours.entries())]),
+            globalActionCounter: Array.from(this.globalActionCounter.entries()),
+            sessionStartPatterns: Array.from(this.sessionStartPatterns.entries()),
+            timeBuckets: this.timeBucketScheme,
+            contextPatterns: Array.from(this.contextPatterns.entries()).map(([key, actions]) => [key, Array.from(actions.entries())]),
+            predictor: this.serializePredictor(),
+            userHistory: this.userHistory,
+        };
+    }
+
+    private serializePredictor(): ModelState['predictor'] {
+        if (this.predictor === this.defaultPredictor) return undefined;
+        const state = this.predictor.serialize?.();
+        return state === undefined ? undefined : { name: this.predictor.name, state };
+    }
+
+    private async restorePredictor(state: ModelState, lastTimestamp: number): Promise<void> {
+        if (this.predictor === this.defaultPredictor) return;
+        const saved = state.predictor;
+        if (saved?.name === this.predictor.name && this.predictor.restore?.(saved.state)) return;
+
+        // No usable saved state: relearn from every stored interaction the snapshot covers, not just the recent history.
+        this.predictor.reset?.();
+        const interactions = await this.databaseManager.getAllInteractions();
+        interactions
+            .filter(interaction => interaction.timestamp <= lastTimestamp)
+            .forEach(interaction => this.predictor.observe(interaction));
+    }
+
+    private restoreState(state: ModelState): void {
+        this.transitionMatrix = new Map(state.transitionMatrix.map(([length, level]) => [
+            length,
+            new Map(level.map(([pattern, transitions]) => [pattern, new Map(transitions)])),
+        ]));
+        this.timePatterns = new Map(state.timePatterns.map(([action, hours]) => [action, new Map(hours)]));
+        this.globalActionCounter = new Map(state.globalActionCounter);
+        this.sessionStartPatterns = new Map(state.sessionStartPatterns ?? []);
+        this.contextPatterns = new Map((state.contextPatterns ?? []).map(([key, actions]) => [key, new Map(actions)]));
+        this.userHistory = state.userHistory;
+    }
+
+    public async saveSnapshot(): Promise<void> {
+        this.interactionsSinceSnapshot = 0;
+        try {
+            await this.databaseManager.saveSnapshot({
+                version: SNAPSHOT_VERSION,
+                createdAt: Date.now(),
+                lastTimestamp: this.lastProcessedTimestamp,
+                state: this.serializeState(),
+            });
+        } catch (error) {
+            console.error('Error saving model snapshot:', error);
+        }
+    }
+
+    private applyAggregates(aggregates: InteractionAggregates): void {
+        for (const [action, count] of Object.entries(aggregates.actionCounts)) {
+            this.globalActionCounter.set(action, (this.globalActionCounter.get(action) || 0) + count);
+        }
+
+        const useWeekHours = this.timeBucketScheme === 'week-hour' && aggregates.weekHourCounts;
+        for (const [action, buckets] of Object.entries(useWeekHours ? aggregates.weekHourCounts! : aggregates.hourCounts)) {
+            if (!this.timePatterns.has(action)) {
+                this.timePatterns.set(action, new Map());
+            }
+            const timeData = this.timePatterns.get(action)!;
+            for (const [bucket, count] of Object.entries(buckets)) {
+                if (useWeekHours) {
+                    timeData.set(Number(bucket), (timeData.get(Number(bucket)) || 0) + count);
+                } else {
+                    this.addHourCount(timeData, Number(bucket), count);
+                }
+            }
+        }
+
+        if (!this.transitionMatrix.has(1)) {
+            this.transitionMatrix.set(1, new Map());
+        }
+        const level = this.transitionMatrix.get(1)!;
+        for (const [previousAction, nextActions] of Object.entries(aggregates.transitions)) {
+            if (!level.has(previousAction)) {
+                level.set(previousAction, new Map());
+            }
+            const transitions = level.get(previousAction)!;
+            for (const [action, count] of Object.entries(nextActions)) {
+                transitions.set(action, (transitions.get(action) || 0) + count);
+            }
+        }
+
+        for (const [action, count] of Object.entries(aggregates.sessionStarts ?? {})) {
+            this.sessionStartPatterns.set(action, (this.sessionStartPatterns.get(action) || 0) + count);
+        }
+
+        if (aggregates.lastTimestamp !== null) {
+            this.lastProcessedTimestamp = Math.max(this.lastProcessedTimestamp, aggregates.lastTimestamp);
+        }
+        console.log(`Applied compacted aggregates covering ${aggregates.totalCount} interactions`);
+    }
+
     private processHistoricalData(interactions: InteractionRecord[]): void {
-        interactions.forEach((interaction) => {
-            this.updateTransitionMatrix(interaction, interaction.timestamp);
-        });
+        interactions.forEach((interaction) => this.learn(interaction));
     }
 
     private updateModel(interaction: InteractionRecord): void {
+        if (this.pendingPrediction) {
+            this.metrics.recordPredictionOutcome(this.pendingPrediction, interaction.actionType, interaction.timestamp);
+        }
+        this.learn(interaction);
+        this.interactionsSinceSnapshot++;
+        if (this.interactionsSinceSnapshot >= this.snapshotInterval) {
+            this.saveSnapshot();
+        }
+
+        const startedAt = performance.now();
+        const candidates = this.predictTopK(this.preloader.getMaxCandidates(), this.clock());
+        const latencyMs = performance.now() - startedAt;
+        this.metrics.recordPredictionLatency(latencyMs);
+        this.events.emit('predictionMade', { timestamp: interaction.timestamp, candidates, latencyMs });
+        this.pendingPrediction = candidates.length ? candidates.map(candidate => candidate.action) : null;
+        this.preloader.preloadCandidates(candidates);
+    }
+
+    public getMetrics(): MetricsSnapshot {
+        return this.metrics.getMetrics();
+    }
+
+    public observe(interaction: InteractionRecord): void {
+        this.learn(interaction);
+    }
+
+    public getPredictor(): Predictor {
+        return this.predictor;
+    }
+
+    public setContext(context: InteractionContext): void {
+        this.currentContext = { ...context };
+    }
+
+    public getContext(): InteractionContext {
+        return { ...this.currentContext };
+    }
+
+    public getTimezone(): string | undefined {
+        return this.timezone;
+    }
+
+    private learn(interaction: InteractionRecord): void {
         this.updateTransitionMatrix(interaction, interaction.timestamp);
-        const nextAction = this.predictNextAction(Date.now());
-        if (nextAction.componentId) {
-            new ComponentPreloader().preloadComponent(nextAction.componentId);
+        this.currentContext = { ...interaction.context };
+        if (this.predictor !== this.defaultPredictor) {
+            this.predictor.observe(interaction);
         }
     }
 
     private updateTransitionMatrix(interaction: InteractionRecord, timestamp: number): void {
         const action = interaction.actionType;
-        const hour = new Date(timestamp).getHours();
+        const bucket = getTimeBucket(getLocalTime(timestamp, interaction.timezone ?? this.timezone), this.timeBucketScheme);
 
         if (!this.timePatterns.has(action)) {
             this.timePatterns.set(action, new Map());
         }
         const timeData = this.timePatterns.get(action)!;
-        timeData.set(hour, (timeData.get(hour) || 0) + 1);
+        timeData.set(bucket, (timeData.get(bucket) || 0) + 1);
 
         this.globalActionCounter.set(action, (this.globalActionCounter.get(action) || 0) + 1);
 
-        const history = this.userHistory;
+        const history = this.getSessionContext(interaction.sessionId ?? null, timestamp);
         const maxLen = Math.min(this.maxPatternLength, history.length);
+        if (!history.length) {
+            this.sessionStartPatterns.set(action, (this.sessionStartPatterns.get(action) || 0) + 1);
+        }
+        this.updateContextPatterns(interaction, history.length ? history[history.length - 1].actionType : null);
 
         for (let length = 1; length <= maxLen; length++) {
             const pattern = history.slice(-length).map(h => h.actionType).join(',');
@@ -300,22 +723,99 @@ class PredictionModel {
             transitions.set(action, (transitions.get(action) || 0) + 1);
         }
 
-        this.userHistory = [...history.slice(-this.historyLength), {
+        this.userHistory = [...this.userHistory.slice(-this.historyLength), {
             componentId: interaction.componentId,
             actionType: action,
-            timestamp: timestamp
+            timestamp: timestamp,
+            sessionId: interaction.sessionId,
+            context: interaction.context,
         }];
+        this.lastProcessedTimestamp = Math.max(this.lastProcessedTimestamp, timestamp);
+    }
+
+    private updateContextPatterns(interaction: InteractionRecord, previousAction: string | null): void {
+        for (const [key, value] of getContextKeys(interaction.context, this.contextKeys)) {
+            const patterns = [`${key}=${value}`, `${key}=${value}|${previousAction ?? ''}`];
+            for (const pattern of patterns) {
+                if (!this.contextPatterns.has(pattern)) {
+                    this.contextPatterns.set(pattern, new Map());
+                }
+                const actions = this.contextPatterns.get(pattern)!;
+                actions.set(interaction.actionType, (actions.get(interaction.actionType) || 0) + 1);
+            }
+        }
+    }
+
+    private smoothTowards(counts: Map<string, number> | undefined, base: PredictionDistribution): PredictionDistribution {
+        if (!counts) return base;
+        const total = Array.from(counts.values()).reduce((sum, c) => sum + c, 0);
+        const smoothed = new Map<string, number>();
+        for (const action of new Set([...base.keys(), ...counts.keys()])) {
+            smoothed.set(action, ((counts.get(action) || 0) + this.contextPrior * (base.get(action) || 0)) / (total + this.contextPrior));
+        }
+        return smoothed;
+    }
+
+    private applyContext(distribution: PredictionDistribution, context: PredictionContext): PredictionDistribution {
+        const keys = getContextKeys(context.attributes, this.contextKeys);
+        if (!keys.length || !this.contextPatterns.size) return distribution;
+
+        // Each context key backs off from (key, previous action) to (key) to the context-free distribution.
+        const base = normalizeDistribution(distribution);
+        const last = context.sessionHistory[context.sessionHistory.length - 1];
+        const combined = new Map<string, number>();
+        for (const [key, value] of keys) {
+            const keyLevel = this.smoothTowards(this.contextPatterns.get(`${key}=${value}`), base);
+            const sequenceLevel = this.smoothTowards(this.contextPatterns.get(`${key}=${value}|${last?.actionType ?? ''}`), keyLevel);
+            for (const [action, probability] of sequenceLevel.entries()) {
+                combined.set(action, (combined.get(action) || 0) + probability / keys.length);
+            }
+        }
+        return combined;
     }
 
     private applyAdaptiveDecay(deltaT: number): number {
         return Math.exp(-this.decayLambda * deltaT);
     }
 
-    private getSequenceProbabilities(): Map<string, number> {
-        const now = Date.now();
+    private getSessionContext(sessionId: string | null, timestamp: number): InteractionData[] {
         const history = this.userHistory;
+        const timeout = this.sessionManager.getInactivityTimeout();
+        let start = history.length;
+        let next: { sessionId?: string | null; timestamp: number } = { sessionId, timestamp };
+
+        while (start > 0) {
+            const entry = history[start - 1];
+            const sameSession = entry.sessionId || next.sessionId
+                ? entry.sessionId === next.sessionId
+                : next.timestamp - entry.timestamp <= timeout;
+            if (!sameSession) break;
+            next = entry;
+            start--;
+        }
+
+        return history.slice(start);
+    }
+
+    private getSessionStartProbabilities(): Map<string, number> {
+        const total = Array.from(this.sessionStartPatterns.values()).reduce((sum, c) => sum + c, 0);
+        const probs = new Map<string, number>();
+        if (total > 0) {
+            for (const [action, count] of this.sessionStartPatterns.entries()) {
+                probs.set(action, (count + this.smoothingFactor) / (total + this.smoothingFactor * this.sessionStartPatterns.size));
+            }
+        }
+        return probs;
+    }
+
+    private getSequenceProbabilities(now: number = this.clock()): Map<string, number> {
+        const history = this.getSessionContext(this.sessionManager.getCurrentSessionId(now), now);
         const seqProbs = new Map<string, number>();
 
+        if (!history.length) {
+            return this.getSessionStartProbabilities();
+        }
+
         for (let length = 1; length <= Math.min(this.maxPatternLength, history.length); length++) {
             const pattern = history.slice(-length).map(h => h.actionType).join(',');
             const possibleActions = this.transitionMatrix.get(length)?.get(pattern);
@@ -341,50 +841,88 @@ class PredictionModel {
         return seqProbs;
     }
 
-    private getTimeProbabilities(timestamp: number): Map<string, number> {
-        const hour = new Date(timestamp).getHours();
-        const totalPerHour = new Map<number, number>();
-
-        for (const [, timeData] of this.timePatterns.entries()) {
-            for (const [h, count] of timeData.entries()) {
-                totalPerHour.set(h, (totalPerHour.get(h) || 0) + count);
-            }
+    private addHourCount(timeData: Map<number, number>, hour: number, count: number): void {
+        const localHour = ((hour % 24) + 24) % 24;
+        if (this.timeBucketScheme === 'hour') {
+            timeData.set(localHour, (timeData.get(localHour) || 0) + count);
+            return;
+        }
+        for (let day = 0; day < 7; day++) {
+            const bucket = day * 24 + localHour;
+            timeData.set(bucket, (timeData.get(bucket) || 0) + count / 7);
         }
+    }
 
-        const total = totalPerHour.get(hour) || 0;
-        const timeProbs = new Map<string, number>();
+    private getHourShift(sourceTimezone?: string): number {
+        if (!sourceTimezone) return 0;
+        const now = this.clock();
+        return Math.round((getTimezoneOffsetMinutes(now, this.timezone) - getTimezoneOffsetMinutes(now, sourceTimezone)) / 60);
+    }
 
-        if (total > 0) {
-            for (const [action, timeData] of this.timePatterns.entries()) {
-                const count = timeData.get(hour) || 0;
-                timeProbs.set(action, count / total);
+    private getWeightedTimeProbabilities(weights: Map<number, number>, fold: (bucket: number) => number): {
+        probs: Map<string, number>;
+        mass: number;
+    } {
+        const scores = new Map<string, number>();
+        let mass = 0;
+        for (const [action, timeData] of this.timePatterns.entries()) {
+            let score = 0;
+            for (const [bucket, count] of timeData.entries()) {
+                score += (weights.get(fold(bucket)) || 0) * count;
+            }
+            if (score > 0) {
+                scores.set(action, score);
+                mass += score;
             }
         }
 
-        return timeProbs;
+        const probs = new Map<string, number>();
+        for (const [action, score] of scores.entries()) {
+            probs.set(action, score / mass);
+        }
+        return { probs, mass };
     }
 
-    private getMostFrequentAction(): string | null {
-        if (!this.globalActionCounter.size) return null;
-        return Array.from(this.globalActionCounter.entries()).reduce((a, b) => a[1] > b[1] ? a : b)[0];
+    private getTimeProbabilities(timestamp: number): Map<string, number> {
+        const local = getLocalTime(timestamp, this.timezone);
+        const hourly = this.getWeightedTimeProbabilities(
+            getBucketWeights(local, 'hour', this.hourSmoothing),
+            (bucket) => bucket % 24
+        );
+        if (this.timeBucketScheme === 'hour') {
+            return hourly.probs;
+        }
+
+        // Sparse weekday buckets back off towards the hour-of-day pattern pooled over all days.
+        const weekly = this.getWeightedTimeProbabilities(getBucketWeights(local, 'week-hour', this.hourSmoothing), (bucket) => bucket);
+        const lambda = weekly.mass / (weekly.mass + this.dayOfWeekPrior);
+        const timeProbs = new Map<string, number>();
+        for (const action of new Set([...weekly.probs.keys(), ...hourly.probs.keys()])) {
+            timeProbs.set(action, lambda * (weekly.probs.get(action) || 0) + (1 - lambda) * (hourly.probs.get(action) || 0));
+        }
+        return timeProbs;
     }
 
-    private computeEntropy(distribution: Map<string, number>): number {
-        let entropy = 0;
-        for (const p of distribution.values()) {
-            if (p > 0) entropy -= p * Math.log2(p);
+    private getFrequencyDistribution(): Map<string, number> {
+        const total = Array.from(this.globalActionCounter.values()).reduce((sum, c) => sum + c, 0);
+        const distribution = new Map<string, number>();
+        if (total > 0) {
+            for (const [action, count] of this.globalActionCounter.entries()) {
+                distribution.set(action, count / total);
+            }
         }
-        return entropy;
+        return distribution;
     }
 
-    public predictNextAction(timestamp: number) {
-        const history = this.userHistory;
-        if (!history.length && !this.globalActionCounter.size) {
-            return { action: null, componentId: null };
+    private getBlendedDistribution(
+        timestamp: number,
+        seqProbs: Map<string, number> = this.getSequenceProbabilities(timestamp),
+        timeProbs: Map<string, number> = this.getTimeProbabilities(timestamp)
+    ): PredictionDistribution {
+        if (!this.userHistory.length && !this.globalActionCounter.size) {
+            return new Map();
         }
 
-        const seqProbs = this.getSequenceProbabilities();
-        const timeProbs = this.getTimeProbabilities(timestamp);
         const combined = new Map<string, number>();
         const allActions = new Set([...seqProbs.keys(), ...timeProbs.keys()]);
 
@@ -394,22 +932,62 @@ class PredictionModel {
             combined.set(action, this.weightSequence * ps + this.weightTime * pt);
         }
 
-        if (combined.size > 0) {
-            const sorted = Array.from(combined.entries()).sort((a, b) => b[1] - a[1]);
-            const maxValue = sorted[0][1];
-            const topCandidates = sorted.filter(([_, v]) => Math.abs(v - maxValue) < 1e-6);
+        const total = Array.from(combined.values()).reduce((sum, v) => sum + v, 0);
+        return total > 0 ? combined : this.getFrequencyDistribution();
+    }
 
-            const bestAction = topCandidates.length === 1
-                ? topCandidates[0][0]
-                : topCandidates.sort((a, b) => this.computeEntropy(seqProbs) - this.computeEntropy(seqProbs))[0][0];
+    private buildContext(timestamp: number, attributes: InteractionContext): PredictionContext {
+        const sessionId = this.sessionManager.getCurrentSessionId(timestamp);
+        return {
+            timestamp,
+            sessionId,
+            attributes,
+            history: this.userHistory,
+            sessionHistory: this.getSessionContext(sessionId, timestamp),
+        };
+    }
+
+    public predictTopK(
+        k: number,
+        timestamp: number = this.clock(),
+        attributes: InteractionContext = this.currentContext
+    ): PredictionCandidate[] {
+        if (k <= 0) {
+            return [];
+        }
 
-            const componentId = this.componentTracker.getComponentByAction(bestAction);
-            return { action: bestAction, componentId };
+        const context = this.buildContext(timestamp, attributes);
+        const seqProbs = this.getSequenceProbabilities(timestamp);
+        const timeProbs = this.getTimeProbabilities(timestamp);
+        const distribution = this.applyContext(
+            this.predictor === this.defaultPredictor
+                ? this.getBlendedDistribution(timestamp, seqProbs, timeProbs)
+                : this.predictor.predict(context),
+            context
+        );
+        const total = Array.from(distribution.values()).reduce((sum, v) => sum + v, 0);
+        if (total <= 0) {
+            return [];
         }
 
-        const fallbackAction = this.getMostFrequentAction();
-        const componentId = fallbackAction ? this.componentTracker.getComponentByAction(fallbackAction) : null;
-        return { action: fallbackAction, componentId };
+        return Array.from(distribution.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, k)
+            .map(([action, value]) => ({
+                action,
+                componentId: this.componentTracker.getComponentByAction(action),
+                probability: value / total,
+                sequenceScore: seqProbs.get(action) || 0,
+                timeScore: timeProbs.get(action) || 0,
+            }));
+    }
+
+    public predictNextAction(timestamp: number): { action: string | null; componentId: string | null } {
+        const [best] = this.predictTopK(1, timestamp);
+        if (!best) {
+            return { action: null, componentId: null };
+        }
+        return { action: best.action, componentId: best.componentId };
     }
 
     public predict(timestamp: number) {
@@ -417,9 +995,4 @@ class PredictionModel {
     }
 }
 
-const predictionModelInstance = new PredictionModel();
-(async () => {
-    await predictionModelInstance.initialize();
-})();
-
-export default predictionModelInstance;
\ No newline at end of file
+export default PredictionModel;
@@ -0,0 +1,286 @@
+//predictor.ts
+import { InteractionRecord } from './databaseManager';
+import { InteractionContext } from './context';
+
+export type PredictionDistribution = Map<string, number>;
+
+export interface PredictionContext {
+    timestamp: number;
+    sessionId: string | null;
+    attributes: InteractionContext;
+    history: InteractionRecord[];
+    sessionHistory: InteractionRecord[];
+}
+
+export interface Predictor {
+    readonly name: string;
+    observe(interaction: InteractionRecord): void;
+    predict(context: PredictionContext): PredictionDistribution;
+    reset?(): void;
+    // Predictors that can save their state are restored from model snapshots; the rest relearn from the stored log.
+    serialize?(): unknown;
+    restore?(state: unknown): boolean;
+}
+
+export type PredictorFactory = (defaultPredictor: Predictor) => Predictor;
+
+export interface RecencyPredictorOptions {
+    maxItems?: number;
+    decay?: number;
+}
+
+export interface MarkovBackoffPredictorOptions {
+    backoffWeight?: number;
+}
+
+export interface EnsembleMember {
+    predictor: Predictor;
+    weight?: number;
+}
+
+export interface EnsemblePredictorOptions {
+    learnWeights?: boolean;
+    learningRate?: number;
+    k?: number;
+    minWeight?: number;
+}
+
+type MarkovBackoffState = {
+    unigrams: Array<[string, number]>;
+    transitions: Array<[string, Array<[string, number]>]>;
+    previous: InteractionRecord | null;
+};
+
+type EnsembleState = Array<{ weight: number; hitRate: number; state: unknown }>;
+
+export function normalizeDistribution(distribution: PredictionDistribution): PredictionDistribution {
+    const total = Array.from(distribution.values()).reduce((sum, value) => sum + value, 0);
+    const normalized = new Map<string, number>();
+    if (total > 0) {
+        for (const [action, value] of distribution.entries()) {
+            normalized.set(action, value / total);
+        }
+    }
+    return normalized;
+}
+
+function isSameSession(previous: InteractionRecord, next: InteractionRecord): boolean {
+    return (previous.sessionId ?? null) === (next.sessionId ?? null);
+}
+
+export class FrequencyPredictor implements Predictor {
+    public readonly name = 'frequency';
+    private counts: Map<string, number> = new Map();
+
+    public observe(interaction: InteractionRecord): void {
+        this.counts.set(interaction.actionType, (this.counts.get(interaction.actionType) || 0) + 1);
+    }
+
+    public predict(): PredictionDistribution {
+        return normalizeDistribution(this.counts);
+    }
+
+    public reset(): void {
+        this.counts = new Map();
+    }
+
+    public serialize(): Array<[string, number]> {
+        return Array.from(this.counts);
+    }
+
+    public restore(state: unknown): boolean {
+        if (!Array.isArray(state)) return false;
+        this.counts = new Map(state as Array<[string, number]>);
+        return true;
+    }
+}
+
+export class RecencyPredictor implements Predictor {
+    public readonly name = 'recency';
+    private maxItems: number;
+    private decay: number;
+    private recent: string[] = [];
+
+    constructor(options: RecencyPredictorOptions = {}) {
+        this.maxItems = options.maxItems ?? 10;
+        this.decay = options.decay ?? 0.5;
+    }
+
+    public observe(interaction: InteractionRecord): void {
+        this.recent = [interaction.actionType, ...this.recent.filter(action => action !== interaction.actionType)]
+            .slice(0, this.maxItems);
+    }
+
+    public predict(): PredictionDistribution {
+        return normalizeDistribution(new Map(this.recent.map((action, rank) => [action, this.decay ** rank])));
+    }
+
+    public reset(): void {
+        this.recent = [];
+    }
+
+    public serialize(): string[] {
+        return [...this.recent];
+    }
+
+    public restore(state: unknown): boolean {
+        if (!Array.isArray(state)) return false;
+        this.recent = (state as string[]).slice(0, this.maxItems);
+        return true;
+    }
+}
+
+export class MarkovBackoffPredictor implements Predictor {
+    public readonly name = 'markov';
+    private backoffWeight: number;
+    private unigrams: Map<string, number> = new Map();
+    private transitions: Map<string, Map<string, number>> = new Map();
+    private previous: InteractionRecord | null = null;
+
+    constructor(options: MarkovBackoffPredictorOptions = {}) {
+        this.backoffWeight = options.backoffWeight ?? 1;
+    }
+
+    public observe(interaction: InteractionRecord): void {
+        const action = interaction.actionType;
+        this.unigrams.set(action, (this.unigrams.get(action) || 0) + 1);
+
+        if (this.previous && isSameSession(this.previous, interaction)) {
+            if (!this.transitions.has(this.previous.actionType)) {
+                this.transitions.set(this.previous.actionType, new Map());
+            }
+            const next = this.transitions.get(this.previous.actionType)!;
+            next.set(action, (next.get(action) || 0) + 1);
+        }
+        this.previous = interaction;
+    }
+
+    public predict(context: PredictionContext): PredictionDistribution {
+        const unigram = normalizeDistribution(this.unigrams);
+        const last = context.sessionHistory[context.sessionHistory.length - 1];
+        const next = last ? this.transitions.get(last.actionType) : undefined;
+        if (!next) return unigram;
+
+        // Dirichlet-smoothed bigram: sparse rows lean on the unigram distribution, dense rows on their own counts.
+        const total = Array.from(next.values()).reduce((sum, count) => sum + count, 0);
+        const distribution = new Map<string, number>();
+        for (const [action, probability] of unigram.entries()) {
+            distribution.set(action, ((next.get(action) || 0) + this.backoffWeight * probability) / (total + this.backoffWeight));
+        }
+        return distribution;
+    }
+
+    public reset(): void {
+        this.unigrams = new Map();
+        this.transitions = new Map();
+        this.previous = null;
+    }
+
+    public serialize(): MarkovBackoffState {
+        return {
+            unigrams: Array.from(this.unigrams),
+            transitions: Array.from(this.transitions, ([action, next]) => [action, Array.from(next)]),
+            previous: this.previous,
+        };
+    }
+
+    public restore(state: unknown): boolean {
+        const saved = state as MarkovBackoffState | null;
+        if (!saved || !Array.isArray(saved.unigrams) || !Array.isArray(saved.transitions)) return false;
+        this.unigrams = new Map(saved.unigrams);
+        this.transitions = new Map(saved.transitions.map(([action, next]) => [action, new Map(next)]));
+        this.previous = saved.previous ?? null;
+        return true;
+    }
+}
+
+export class EnsemblePredictor implements Predictor {
+    public readonly name = 'ensemble';
+    private members: Array<{ predictor: Predictor; weight: number; initialWeight: number; hitRate: number }>;
+    private learnWeights: boolean;
+    private learningRate: number;
+    private k: number;
+    private minWeight: number;
+    private lastPredictions: PredictionDistribution[] | null;
+
+    constructor(members: Array<Predictor | EnsembleMember>, options: EnsemblePredictorOptions = {}) {
+        if (!members.length) {
+            throw new Error('EnsemblePredictor requires at least one predictor');
+        }
+        this.members = members.map(member => {
+            const { predictor, weight } = 'predictor' in member ? member : { predictor: member, weight: undefined };
+            const initialWeight = weight ?? 1 / members.length;
+            return { predictor, weight: initialWeight, initialWeight, hitRate: 0.5 };
+        });
+        this.learnWeights = options.learnWeights ?? false;
+        this.learningRate = options.learningRate ?? 0.05;
+        this.k = options.k ?? 3;
+        this.minWeight = options.minWeight ?? 0.01;
+        this.lastPredictions = null;
+    }
+
+    public observe(interaction: InteractionRecord): void {
+        if (this.learnWeights && this.lastPredictions) {
+            this.members.forEach((member, index) => {
+                const topK = Array.from(this.lastPredictions![index].entries())
+                    .sort((a, b) => b[1] - a[1])
+                    .slice(0, this.k)
+                    .map(([action]) => action);
+                const hit = topK.includes(interaction.actionType) ? 1 : 0;
+                member.hitRate = (1 - this.learningRate) * member.hitRate + this.learningRate * hit;
+                member.weight = Math.max(this.minWeight, member.hitRate);
+            });
+        }
+        this.lastPredictions = null;
+        this.members.forEach(member => member.predictor.observe(interaction));
+    }
+
+    public predict(context: PredictionContext): PredictionDistribution {
+        const predictions = this.members.map(member => normalizeDistribution(member.predictor.predict(context)));
+        this.lastPredictions = predictions;
+
+        const combined = new Map<string, number>();
+        predictions.forEach((distribution, index) => {
+            const weight = this.members[index].weight;
+            for (const [action, probability] of distribution.entries()) {
+                combined.set(action, (combined.get(action) || 0) + weight * probability);
+            }
+        });
+        return normalizeDistribution(combined);
+    }
+
+    public reset(): void {
+        this.lastPredictions = null;
+        this.members.forEach(member => {
+            member.weight = member.initialWeight;
+            member.hitRate = 0.5;
+            member.predictor.reset?.();
+        });
+    }
+
+    public serialize(): EnsembleState | undefined {
+        const members: EnsembleState = [];
+        for (const member of this.members) {
+            if (!member.predictor.serialize) return undefined;
+            members.push({ weight: member.weight, hitRate: member.hitRate, state: member.predictor.serialize() });
+        }
+        return members;
+    }
+
+    public restore(state: unknown): boolean {
+        const saved = state as EnsembleState | null;
+        if (!Array.isArray(saved) || saved.length !== this.members.length) return false;
+        if (!this.members.every((member, index) => member.predictor.restore?.(saved[index].state))) return false;
+        this.members.forEach((member, index) => {
+            member.weight = saved[index].weight;
+            member.hitRate = saved[index].hitRate;
+        });
+        this.lastPredictions = null;
+        return true;
+    }
+
+    public getWeights(): Record<string, number> {
+        const total = this.members.reduce((sum, member) => sum + member.weight, 0);
+        return Object.fromEntries(this.members.map(member => [member.predictor.name, member.weight / total]));
+    }
+}
@@ -0,0 +1,63 @@
+import PreloadCache, { estimateModuleSize } from './preloadCache';
+
+describe('PreloadCache eviction', () => {
+    it('evicts the least recently used entry when over maxEntries', () => {
+        const cache = new PreloadCache<string>({ maxEntries: 2 });
+        cache.set('a', 'A');
+        cache.set('b', 'B');
+        cache.get('a');
+        cache.set('c', 'C');
+
+        expect(cache.has('a')).toBe(true);
+        expect(cache.has('b')).toBe(false);
+        expect(cache.has('c')).toBe(true);
+        expect(cache.getStats().evictions.lru).toBe(1);
+    });
+
+    it('expires entries after their TTL', () => {
+        let now = 0;
+        const cache = new PreloadCache<string>({ ttlMs: 1000, clock: () => now });
+        cache.set('a', 'A');
+        cache.set('b', 'B', null);
+
+        now = 1000;
+        expect(cache.get('a')).toBeUndefined();
+        expect(cache.get('b')).toBe('B');
+        expect(cache.getStats().evictions.ttl).toBe(1);
+    });
+
+    it('evicts by size using the default estimate for module objects', () => {
+        const cache = new PreloadCache<string>({ maxSize: 1500 });
+        const module = (body: string) => ({ default: new Function(body), label: body });
+        cache.set('a', 'A');
+        cache.setModule('a', module('x'.repeat(200)));
+        cache.set('b', 'B');
+        cache.setModule('b', module('y'.repeat(200)));
+
+        expect(cache.getStats().evictions.size).toBe(1);
+        expect(cache.has('a')).toBe(false);
+        expect(cache.has('b')).toBe(true);
+    });
+});
+
+describe('estimateModuleSize', () => {
+    it('measures nested objects, functions and binary data without looping on cycles', () => {
+        const module: Record<string, unknown> = { name: 'report', data: new Uint8Array(64), render: () => 'report' };
+        module.self = module;
+
+        const size = estimateModuleSize('report', module);
+        expect(size).toBeGreaterThan(64 + 'report'.length * 2);
+        expect(estimateModuleSize('empty', {})).toBe(0);
+    });
+
+    it('stops walking deep or huge object graphs', () => {
+        let deep: Record<string, unknown> = { leaf: 'x'.repeat(1000) };
+        for (let i = 0; i < 50; i++) {
+            deep = { next: deep };
+        }
+        expect(estimateModuleSize('deep', deep)).toBeLessThan(1000);
+
+        const huge = Array.from({ length: 1_000_000 }, () => 1);
+        expect(estimateModuleSize('huge', { huge })).toBeLessThanOrEqual(10000 * 8);
+    });
+});
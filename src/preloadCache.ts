@@ -0,0 +1,246 @@
+//preloadCache.ts
+export type EvictionReason = 'lru' | 'ttl' | 'size' | 'invalidated';
+
+export interface PreloadCacheOptions {
+    maxEntries?: number;
+    ttlMs?: number | null;
+    maxSize?: number;
+    estimateSize?: (key: string, module: unknown) => number;
+    clock?: () => number;
+}
+
+export interface PreloadCacheStats {
+    entries: number;
+    size: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    evictions: Record<EvictionReason, number>;
+}
+
+interface CacheSlot<V> {
+    value: V;
+    size: number;
+    expiresAt: number;
+}
+
+function estimateValueSize(value: unknown): number {
+    switch (typeof value) {
+        case 'string':
+            return value.length * 2;
+        case 'number':
+        case 'bigint':
+            return 8;
+        case 'boolean':
+            return 4;
+        case 'function':
+            // Source length is the closest thing to code size a loaded module exposes.
+            return Function.prototype.toString.call(value).length * 2;
+        default:
+            return 0;
+    }
+}
+
+// A module can reach a whole framework or app graph, so the walk stops at these bounds and the estimate becomes a lower bound.
+const MAX_ESTIMATE_DEPTH = 8;
+const MAX_ESTIMATE_VALUES = 10000;
+
+export function estimateModuleSize(_key: string, module: unknown): number {
+    const seen = new Set<unknown>();
+    const stack: Array<[unknown, number]> = [[module, 0]];
+    let budget = MAX_ESTIMATE_VALUES - 1;
+    let size = 0;
+    const visit = (value: unknown, depth: number) => {
+        if (budget <= 0 || depth > MAX_ESTIMATE_DEPTH) return;
+        budget--;
+        stack.push([value, depth]);
+    };
+
+    while (stack.length) {
+        const [value, depth] = stack.pop()!;
+        if (value === null || typeof value !== 'object') {
+            size += estimateValueSize(value);
+            continue;
+        }
+        if (seen.has(value)) continue;
+        seen.add(value);
+
+        if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+            size += value.byteLength;
+        } else if (typeof Blob !== 'undefined' && value instanceof Blob) {
+            size += value.size;
+        } else if (value instanceof Map) {
+            for (const [key, entry] of value) {
+                if (budget <= 0) break;
+                visit(key, depth + 1);
+                visit(entry, depth + 1);
+            }
+        } else if (value instanceof Set || Array.isArray(value)) {
+            for (const entry of value) {
+                if (budget <= 0) break;
+                visit(entry, depth + 1);
+            }
+        } else {
+            for (const key of Object.keys(value)) {
+                if (budget <= 0) break;
+                size += key.length * 2;
+                try {
+                    visit((value as Record<string, unknown>)[key], depth + 1);
+                } catch {
+                    // Getters on module namespaces or proxies may throw; they add nothing measurable.
+                }
+            }
+        }
+    }
+    return size;
+}
+
+class PreloadCache<V> {
+    private slots: Map<string, CacheSlot<V>>;
+    private maxEntries: number;
+    private ttlMs: number | null;
+    private maxSize: number;
+    private estimateSize: (key: string, module: unknown) => number;
+    private clock: () => number;
+    private totalSize: number;
+    private hits: number;
+    private misses: number;
+    private evictions: Record<EvictionReason, number>;
+
+    constructor(options: PreloadCacheOptions = {}) {
+        this.slots = new Map();
+        this.maxEntries = Math.max(1, options.maxEntries ?? 100);
+        this.ttlMs = options.ttlMs === undefined ? 30 * 60 * 1000 : options.ttlMs;
+        this.maxSize = options.maxSize ?? Infinity;
+        this.estimateSize = options.estimateSize ?? estimateModuleSize;
+        this.clock = options.clock ?? (() => Date.now());
+        this.totalSize = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.evictions = { lru: 0, ttl: 0, size: 0, invalidated: 0 };
+    }
+
+    public get(key: string): V | undefined {
+        const slot = this.getFresh(key);
+        if (!slot) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        this.slots.delete(key);
+        this.slots.set(key, slot);
+        return slot.value;
+    }
+
+    public peek(key: string): V | undefined {
+        return this.getFresh(key)?.value;
+    }
+
+    public has(key: string): boolean {
+        return !!this.getFresh(key);
+    }
+
+    public set(key: string, value: V, ttlMs: number | null = this.ttlMs): void {
+        this.remove(key);
+        this.slots.set(key, {
+            value,
+            size: 0,
+            expiresAt: ttlMs === null ? Infinity : this.clock() + ttlMs,
+        });
+        this.enforceLimits(key);
+    }
+
+    public setModule(key: string, module: unknown): void {
+        const slot = this.slots.get(key);
+        if (!slot) return;
+        const size = Math.max(0, this.estimateSize(key, module) || 0);
+        this.totalSize += size - slot.size;
+        slot.size = size;
+        this.enforceLimits(key);
+    }
+
+    public delete(key: string): boolean {
+        return this.remove(key);
+    }
+
+    public invalidate(key: string): boolean {
+        if (!this.remove(key)) return false;
+        this.evictions.invalidated++;
+        return true;
+    }
+
+    public clear(): void {
+        this.slots.clear();
+        this.totalSize = 0;
+    }
+
+    public prune(): number {
+        let pruned = 0;
+        const now = this.clock();
+        this.slots.forEach((slot, key) => {
+            if (slot.expiresAt <= now) {
+                this.evict(key, 'ttl');
+                pruned++;
+            }
+        });
+        return pruned;
+    }
+
+    public getStats(): PreloadCacheStats {
+        const lookups = this.hits + this.misses;
+        return {
+            entries: this.slots.size,
+            size: this.totalSize,
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: lookups ? this.hits / lookups : 0,
+            evictions: { ...this.evictions },
+        };
+    }
+
+    public resetStats(): void {
+        this.hits = 0;
+        this.misses = 0;
+        this.evictions = { lru: 0, ttl: 0, size: 0, invalidated: 0 };
+    }
+
+    private getFresh(key: string): CacheSlot<V> | undefined {
+        const slot = this.slots.get(key);
+        if (!slot) return undefined;
+        if (slot.expiresAt <= this.clock()) {
+            this.evict(key, 'ttl');
+            return undefined;
+        }
+        return slot;
+    }
+
+    private remove(key: string): boolean {
+        const slot = this.slots.get(key);
+        if (!slot) return false;
+        this.totalSize -= slot.size;
+        this.slots.delete(key);
+        return true;
+    }
+
+    private evict(key: string, reason: EvictionReason): void {
+        if (this.remove(key)) {
+            this.evictions[reason]++;
+        }
+    }
+
+    private enforceLimits(protectedKey: string): void {
+        // Map iteration order is insertion order, and reads re-insert, so the first key is the least recently used.
+        for (const [key, slot] of Array.from(this.slots)) {
+            const overCount = this.slots.size > this.maxEntries;
+            if (!overCount && this.totalSize <= this.maxSize) return;
+            if (key === protectedKey) continue;
+            if (!overCount && !slot.size) continue;
+            this.evict(key, overCount ? 'lru' : 'size');
+        }
+        if (this.totalSize > this.maxSize) {
+            this.evict(protectedKey, 'size');
+        }
+    }
+}
+
+export default PreloadCache;
@@ -0,0 +1,117 @@
+import PreloadScheduler, { PreloadTask } from './preloadScheduler';
+import ComponentPreloader from './componentPreloader';
+import ComponentTracker from './componentTracker';
+import EventBus from './eventBus';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function pendingTask(id: string, priority: number, signals: Map<string, AbortSignal>): PreloadTask {
+    return {
+        id,
+        priority,
+        run: (signal) => {
+            signals.set(id, signal);
+            return new Promise(() => undefined);
+        },
+    };
+}
+
+describe('PreloadScheduler cancellation', () => {
+    it('aborts running tasks that drop out of a newer schedule', async () => {
+        const cancelled: string[] = [];
+        const signals = new Map<string, AbortSignal>();
+        const scheduler = new PreloadScheduler({ useIdleCallback: false, onCancel: id => cancelled.push(id) });
+
+        scheduler.schedule([pendingTask('a', 0.9, signals), pendingTask('b', 0.5, signals)]);
+        await flush();
+        expect(scheduler.getRunningIds()).toEqual(['a', 'b']);
+
+        scheduler.schedule([pendingTask('b', 0.5, signals)]);
+        expect(signals.get('a')!.aborted).toBe(true);
+        expect(signals.get('b')!.aborted).toBe(false);
+        expect(cancelled).toEqual(['a']);
+        expect(scheduler.getRunningIds()).toEqual(['b']);
+    });
+
+    it('drops queued tasks and aborts running ones on cancelAll', async () => {
+        const signals = new Map<string, AbortSignal>();
+        const scheduler = new PreloadScheduler({ useIdleCallback: false, maxConcurrent: 1 });
+
+        scheduler.schedule([pendingTask('a', 0.9, signals), pendingTask('b', 0.5, signals)]);
+        await flush();
+        expect(scheduler.getQueuedIds()).toEqual(['b']);
+
+        scheduler.cancelAll();
+        await flush();
+        expect(signals.get('a')!.aborted).toBe(true);
+        expect(signals.has('b')).toBe(false);
+        expect(scheduler.getRunningIds()).toEqual([]);
+    });
+
+    it('no longer aborts a released task when it is rescheduled away', async () => {
+        const signals = new Map<string, AbortSignal>();
+        const scheduler = new PreloadScheduler({ useIdleCallback: false });
+
+        scheduler.schedule([pendingTask('a', 0.9, signals)]);
+        await flush();
+        expect(scheduler.release('a')).toBe(true);
+
+        scheduler.schedule([]);
+        expect(signals.get('a')!.aborted).toBe(false);
+        expect(scheduler.release('a')).toBe(false);
+    });
+});
+
+describe('ComponentPreloader with scheduled preloads', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keeps a preload that getPreloaded handed out alive when the prediction changes', async () => {
+        const events = new EventBus();
+        const preloader = new ComponentPreloader({
+            componentTracker: new ComponentTracker(events),
+            events,
+            scheduler: { useIdleCallback: false },
+        });
+        let resolveModule: (module: string) => void = () => undefined;
+        preloader.registerLoader('product', signal => new Promise((resolve, reject) => {
+            resolveModule = resolve;
+            signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }));
+
+        preloader.preloadCandidates([{ action: 'product', componentId: 'product', probability: 0.9, sequenceScore: 0.9, timeScore: 0 }]);
+        await flush();
+        const navigation = preloader.getPreloaded<string>('product')!;
+
+        preloader.preloadCandidates([]);
+        resolveModule('module');
+        await expect(navigation).resolves.toBe('module');
+    });
+
+    it('aborts a speculative preload nobody is waiting for', async () => {
+        const events = new EventBus();
+        const cancelled: string[] = [];
+        events.on('preloadCancelled', ({ componentId }) => cancelled.push(componentId));
+        const preloader = new ComponentPreloader({
+            componentTracker: new ComponentTracker(events),
+            events,
+            scheduler: { useIdleCallback: false },
+        });
+        let aborted = false;
+        preloader.registerLoader('product', signal => new Promise(() => {
+            signal?.addEventListener('abort', () => { aborted = true; });
+        }));
+
+        preloader.preloadCandidates([{ action: 'product', componentId: 'product', probability: 0.9, sequenceScore: 0.9, timeScore: 0 }]);
+        await flush();
+        preloader.preloadCandidates([]);
+
+        expect(aborted).toBe(true);
+        expect(cancelled).toEqual(['product']);
+    });
+});
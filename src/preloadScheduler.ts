@@ -0,0 +1,156 @@
+//preloadScheduler.ts
+export type EffectiveConnectionType = 'slow-2g' | '2g' | '3g' | '4g';
+
+export interface PreloadSchedulerOptions {
+    maxConcurrent?: number;
+    useIdleCallback?: boolean;
+    idleTimeoutMs?: number;
+    respectSaveData?: boolean;
+    minEffectiveType?: EffectiveConnectionType;
+    onCancel?: (id: string) => void;
+}
+
+export interface PreloadTask {
+    id: string;
+    priority: number;
+    run: (signal: AbortSignal) => Promise<unknown> | null;
+}
+
+interface NetworkInformationLike {
+    saveData?: boolean;
+    effectiveType?: string;
+}
+
+const CONNECTION_RANK: Record<EffectiveConnectionType, number> = {
+    'slow-2g': 0,
+    '2g': 1,
+    '3g': 2,
+    '4g': 3,
+};
+
+class PreloadScheduler {
+    private maxConcurrent: number;
+    private useIdleCallback: boolean;
+    private idleTimeoutMs: number;
+    private respectSaveData: boolean;
+    private minEffectiveType: EffectiveConnectionType;
+    private onCancel?: (id: string) => void;
+    private queue: PreloadTask[];
+    private running: Map<string, AbortController>;
+    private cancelPump: (() => void) | null;
+
+    constructor(options: PreloadSchedulerOptions = {}) {
+        this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 2);
+        this.useIdleCallback = options.useIdleCallback ?? true;
+        this.idleTimeoutMs = options.idleTimeoutMs ?? 2000;
+        this.respectSaveData = options.respectSaveData ?? true;
+        this.minEffectiveType = options.minEffectiveType ?? '3g';
+        this.onCancel = options.onCancel;
+        this.queue = [];
+        this.running = new Map();
+        this.cancelPump = null;
+    }
+
+    public canPreload(): boolean {
+        const connection = typeof navigator !== 'undefined'
+            ? (navigator as Navigator & { connection?: NetworkInformationLike }).connection
+            : undefined;
+        if (!connection) return true;
+        if (this.respectSaveData && connection.saveData) return false;
+        const rank = CONNECTION_RANK[connection.effectiveType as EffectiveConnectionType];
+        return rank === undefined || rank >= CONNECTION_RANK[this.minEffectiveType];
+    }
+
+    public schedule(tasks: PreloadTask[]): string[] {
+        if (!this.canPreload()) {
+            this.cancelAll();
+            return [];
+        }
+
+        const ids = new Set(tasks.map(task => task.id));
+        this.running.forEach((_, id) => {
+            if (!ids.has(id)) this.cancel(id);
+        });
+        this.queue = tasks
+            .filter(task => !this.running.has(task.id))
+            .sort((a, b) => b.priority - a.priority);
+        this.requestPump();
+        return tasks.map(task => task.id);
+    }
+
+    public cancel(id: string): void {
+        const controller = this.running.get(id);
+        if (controller) {
+            this.running.delete(id);
+            controller.abort();
+            this.onCancel?.(id);
+            this.requestPump();
+            return;
+        }
+        this.queue = this.queue.filter(task => task.id !== id);
+    }
+
+    // Hands a running task over to a caller that needs its result, so rescheduling can no longer abort it.
+    public release(id: string): boolean {
+        if (!this.running.delete(id)) return false;
+        this.requestPump();
+        return true;
+    }
+
+    public cancelAll(): void {
+        this.queue = [];
+        Array.from(this.running.keys()).forEach(id => this.cancel(id));
+        this.cancelPump?.();
+        this.cancelPump = null;
+    }
+
+    public getQueuedIds(): string[] {
+        return this.queue.map(task => task.id);
+    }
+
+    public getRunningIds(): string[] {
+        return Array.from(this.running.keys());
+    }
+
+    private requestPump(): void {
+        if (this.cancelPump || !this.queue.length || this.running.size >= this.maxConcurrent) return;
+
+        if (this.useIdleCallback && typeof requestIdleCallback === 'function') {
+            const handle = requestIdleCallback((deadline) => {
+                this.cancelPump = null;
+                this.pump(deadline);
+            }, { timeout: this.idleTimeoutMs });
+            this.cancelPump = () => cancelIdleCallback(handle);
+        } else {
+            const handle = setTimeout(() => {
+                this.cancelPump = null;
+                this.pump();
+            }, 0);
+            this.cancelPump = () => clearTimeout(handle);
+        }
+    }
+
+    private pump(deadline?: IdleDeadline): void {
+        while (this.queue.length && this.running.size < this.maxConcurrent) {
+            if (deadline && !deadline.didTimeout && deadline.timeRemaining() <= 0) break;
+
+            const task = this.queue.shift()!;
+            const controller = new AbortController();
+            const promise = task.run(controller.signal);
+            if (!promise) continue;
+
+            this.running.set(task.id, controller);
+            promise
+                .catch(() => undefined)
+                .then(() => {
+                    if (this.running.get(task.id) === controller) {
+                        this.running.delete(task.id);
+                        this.requestPump();
+                    }
+                });
+        }
+        this.requestPump();
+    }
+}
+
+export default PreloadScheduler;
@@ -0,0 +1,91 @@
+import DifferentialPrivacy from './privacy';
+
+describe('DifferentialPrivacy', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('uses a sensitivity that does not depend on how many actions are released', () => {
+        const privacy = new DifferentialPrivacy({ storageKey: null, maxContribution: 5, maxActions: 4, budget: 10 });
+        const few = privacy.privatizeCounts({ home: 50 })!;
+        const many = privacy.privatizeCounts({ home: 50, search: 40, product: 30, cart: 20, checkout: 10 })!;
+
+        expect(few.guarantee.sensitivity).toBe(20);
+        expect(many.guarantee.sensitivity).toBe(20);
+        expect(Object.keys(many.counts)).not.toContain('checkout');
+    });
+
+    it('calibrates the threshold so a rarely used action is not revealed', () => {
+        const privacy = new DifferentialPrivacy({
+            storageKey: null,
+            epsilon: 1,
+            delta: 1e-9,
+            maxContribution: 1,
+            maxActions: 1,
+            budget: 1000,
+        });
+
+        for (let i = 0; i < 200; i++) {
+            const result = privacy.privatizeCounts({ rare: 1 })!;
+            expect(result.counts).toEqual({});
+            expect(result.guarantee.kThreshold).toBeCloseTo(1 + Math.log(1 / (2 * 1e-9)));
+            expect(result.guarantee.delta).toBe(1e-9);
+        }
+    });
+
+    it('keeps a user-set k-threshold when it is stricter than the calibrated one', () => {
+        const privacy = new DifferentialPrivacy({ storageKey: null, kThreshold: 1000 });
+        expect(privacy.privatizeCounts({ home: 5 })!.guarantee.kThreshold).toBe(1000);
+    });
+
+    it('releases every action of a public domain and nothing outside it', () => {
+        const privacy = new DifferentialPrivacy({ storageKey: null, actionDomain: ['home', 'search', 'cart'], budget: 10 });
+        const result = privacy.privatizeCounts({ home: 3, secret: 50 })!;
+
+        expect(Object.keys(result.counts).sort()).toEqual(['cart', 'home', 'search']);
+        expect(result.guarantee.delta).toBe(0);
+        expect(result.guarantee.kThreshold).toBe(0);
+    });
+
+    it('keeps released domain counts unbiased so they can be summed across users', () => {
+        const privacy = new DifferentialPrivacy({
+            storageKey: null,
+            actionDomain: ['home', 'search'],
+            maxActions: 1,
+            budget: 10000,
+        });
+
+        let home = 0;
+        let search = 0;
+        const runs = 4000;
+        for (let i = 0; i < runs; i++) {
+            const { counts } = privacy.privatizeCounts({ home: 3 })!;
+            home += counts.home;
+            search += counts.search;
+        }
+        // Laplace scale 5 gives the mean of 4000 draws a standard deviation of about 0.11.
+        expect(Math.abs(home / runs - 3)).toBeLessThan(0.6);
+        expect(Math.abs(search / runs)).toBeLessThan(0.6);
+    });
+
+    it('reports the full delta for the Gaussian mechanism', () => {
+        const privacy = new DifferentialPrivacy({ storageKey: null, mechanism: 'gaussian', epsilon: 0.5, delta: 1e-6, budget: 10 });
+        expect(privacy.privatizeCounts({ home: 5 })!.guarantee.delta).toBeCloseTo(1e-6, 12);
+        const domain = new DifferentialPrivacy({ storageKey: null, mechanism: 'gaussian', epsilon: 0.5, delta: 1e-6, actionDomain: ['home'] });
+        expect(domain.privatizeCounts({ home: 5 })!.guarantee.delta).toBe(1e-6);
+    });
+
+    it('refuses to release counts once the period budget is spent', () => {
+        const privacy = new DifferentialPrivacy({ storageKey: null, epsilon: 1, budget: 2 });
+        const timestamp = Date.UTC(2024, 0, 1);
+
+        expect(privacy.privatizeCounts({ home: 10 }, timestamp)).not.toBeNull();
+        expect(privacy.privatizeCounts({ home: 10 }, timestamp)).not.toBeNull();
+        expect(privacy.privatizeCounts({ home: 10 }, timestamp)).toBeNull();
+        expect(privacy.getRemainingBudget(timestamp + 24 * 60 * 60 * 1000)).toBe(2);
+    });
+});
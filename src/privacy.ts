@@ -0,0 +1,202 @@
+//privacy.ts
+export type NoiseMechanism = 'laplace' | 'gaussian';
+
+export interface PrivacyOptions {
+    mechanism?: NoiseMechanism;
+    epsilon?: number;
+    delta?: number;
+    kThreshold?: number;
+    maxContribution?: number;
+    maxActions?: number;
+    actionDomain?: string[];
+    budget?: number;
+    budgetPeriodMs?: number;
+    storageKey?: string | null;
+}
+
+export interface PrivacyGuarantee {
+    mechanism: NoiseMechanism;
+    epsilon: number;
+    delta: number;
+    sensitivity: number;
+    kThreshold: number;
+    maxContribution: number;
+    maxActions: number;
+    period: number;
+    periodMs: number;
+    budget: number;
+    budgetSpent: number;
+}
+
+export interface PrivatizedCounts {
+    counts: Record<string, number>;
+    guarantee: PrivacyGuarantee;
+}
+
+type BudgetState = {
+    period: number;
+    spent: number;
+};
+
+function randomUnit(): number {
+    const [value] = crypto.getRandomValues(new Uint32Array(1));
+    return (value + 0.5) / 2 ** 32;
+}
+
+function sampleLaplace(scale: number): number {
+    const u = randomUnit() - 0.5;
+    return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+}
+
+function sampleGaussian(sigma: number): number {
+    return sigma * Math.sqrt(-2 * Math.log(randomUnit())) * Math.cos(2 * Math.PI * randomUnit());
+}
+
+export function combineGuarantees(guarantees: PrivacyGuarantee[]): PrivacyGuarantee {
+    const latest = guarantees[guarantees.length - 1];
+    return {
+        ...latest,
+        epsilon: guarantees.reduce((sum, guarantee) => sum + guarantee.epsilon, 0),
+        delta: guarantees.reduce((sum, guarantee) => sum + guarantee.delta, 0),
+        sensitivity: Math.max(...guarantees.map(guarantee => guarantee.sensitivity)),
+        budgetSpent: Math.max(...guarantees.map(guarantee => guarantee.budgetSpent)),
+    };
+}
+
+class DifferentialPrivacy {
+    private mechanism: NoiseMechanism;
+    private epsilon: number;
+    private delta: number;
+    private kThreshold: number;
+    private maxContribution: number;
+    private maxActions: number;
+    private actionDomain: string[] | null;
+    private budget: number;
+    private budgetPeriodMs: number;
+    private storageKey: string | null;
+    private state: BudgetState;
+
+    constructor(options: PrivacyOptions = {}) {
+        this.mechanism = options.mechanism ?? 'laplace';
+        this.epsilon = options.epsilon ?? 1;
+        this.delta = options.delta ?? 1e-5;
+        this.kThreshold = options.kThreshold ?? 0;
+        this.maxContribution = options.maxContribution ?? 5;
+        this.maxActions = options.maxActions ?? 5;
+        this.actionDomain = options.actionDomain ? Array.from(new Set(options.actionDomain)) : null;
+        this.budget = options.budget ?? 3;
+        this.budgetPeriodMs = options.budgetPeriodMs ?? 24 * 60 * 60 * 1000;
+        this.storageKey = options.storageKey === undefined ? 'predict_library_privacy_budget' : options.storageKey;
+
+        if (!(this.epsilon > 0)) {
+            throw new Error(`Privacy epsilon must be positive. Got: ${this.epsilon}`);
+        }
+        if ((this.mechanism === 'gaussian' || !this.actionDomain) && !(this.delta > 0 && this.delta < 1)) {
+            throw new Error(`Privacy delta must be between 0 and 1. Got: ${this.delta}`);
+        }
+        if (this.actionDomain && !this.actionDomain.length) {
+            throw new Error('Privacy actionDomain must list at least one action');
+        }
+        if (!(this.maxActions >= 1) || !Number.isInteger(this.maxActions)) {
+            throw new Error(`Privacy maxActions must be a positive integer. Got: ${this.maxActions}`);
+        }
+        this.state = this.loadState();
+    }
+
+    private loadState(): BudgetState {
+        if (!this.storageKey || typeof localStorage === 'undefined') return { period: -1, spent: 0 };
+        try {
+            const raw = localStorage.getItem(this.storageKey);
+            return raw ? JSON.parse(raw) as BudgetState : { period: -1, spent: 0 };
+        } catch {
+            return { period: -1, spent: 0 };
+        }
+    }
+
+    private persistState(): void {
+        if (!this.storageKey || typeof localStorage === 'undefined') return;
+        localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    }
+
+    public getPeriod(timestamp: number = Date.now()): number {
+        return Math.floor(timestamp / this.budgetPeriodMs);
+    }
+
+    public getRemainingBudget(timestamp: number = Date.now()): number {
+        const spent = this.state.period === this.getPeriod(timestamp) ? this.state.spent : 0;
+        return Math.max(0, this.budget - spent);
+    }
+
+    public reset(): void {
+        this.state = { period: -1, spent: 0 };
+        if (this.storageKey && typeof localStorage !== 'undefined') {
+            localStorage.removeItem(this.storageKey);
+        }
+    }
+
+    // An action the user barely touched clears the threshold with probability at most selectionDelta / maxActions.
+    private getSelectionThreshold(scale: number, selectionDelta: number): number {
+        const tail = Math.max(0, Math.log(this.maxActions / (2 * selectionDelta)));
+        return this.maxContribution + (this.mechanism === 'laplace' ? scale * tail : scale * Math.sqrt(2 * tail));
+    }
+
+    public privatizeCounts(counts: Record<string, number>, timestamp: number = Date.now()): PrivatizedCounts | null {
+        const period = this.getPeriod(timestamp);
+        if (this.state.period !== period) {
+            this.state = { period, spent: 0 };
+        }
+        if (this.state.spent + this.epsilon > this.budget + 1e-9) {
+            console.warn(`Privacy budget exhausted for period ${period}: spent ${this.state.spent} of ${this.budget}`);
+            return null;
+        }
+
+        // Contribution is bounded up front so the sensitivity does not depend on the data being released. Picking the
+        // top actions only shapes this user's own vector; which of them become visible is left to the threshold or the domain.
+        const bounded = new Map(Object.entries(counts)
+            .filter(([action]) => !this.actionDomain || this.actionDomain.includes(action))
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, this.maxActions)
+            .map(([action, count]): [string, number] => [action, Math.min(count, this.maxContribution)]));
+
+        // Without a public domain the set of released actions is itself data, so part of delta pays for thresholding it.
+        const selectionDelta = this.actionDomain ? 0 : this.mechanism === 'gaussian' ? this.delta / 2 : this.delta;
+        const noiseDelta = this.mechanism === 'gaussian' ? this.delta - selectionDelta : 0;
+        const sensitivity = this.mechanism === 'laplace'
+            ? this.maxContribution * this.maxActions
+            : this.maxContribution * Math.sqrt(this.maxActions);
+        const scale = this.mechanism === 'laplace'
+            ? sensitivity / this.epsilon
+            : sensitivity * Math.sqrt(2 * Math.log(1.25 / noiseDelta)) / this.epsilon;
+        const threshold = this.actionDomain ? 0 : Math.max(this.kThreshold, this.getSelectionThreshold(scale, selectionDelta));
+
+        const noisy: Record<string, number> = {};
+        for (const action of this.actionDomain ?? bounded.keys()) {
+            const noise = this.mechanism === 'laplace' ? sampleLaplace(scale) : sampleGaussian(scale);
+            const value = Math.round((bounded.get(action) ?? 0) + noise);
+            // Over a public domain every action is released, negative values included, so sums across users stay unbiased.
+            if (this.actionDomain || value >= threshold) noisy[action] = value;
+        }
+
+        this.state.spent += this.epsilon;
+        this.persistState();
+
+        return {
+            counts: noisy,
+            guarantee: {
+                mechanism: this.mechanism,
+                epsilon: this.epsilon,
+                delta: selectionDelta + noiseDelta,
+                sensitivity,
+                kThreshold: threshold,
+                maxContribution: this.maxContribution,
+                maxActions: this.maxActions,
+                period,
+                periodMs: this.budgetPeriodMs,
+                budget: this.budget,
+                budgetSpent: this.state.spent,
+            },
+        };
+    }
+}
+
+export default DifferentialPrivacy;
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act } from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import {
+    PredictiveLink,
+    PredictiveProvider,
+    usePrediction,
+    usePredictiveLibrary,
+    useTrackComponent,
+    useTrackInteraction,
+    withTracker,
+} from './react';
+import { PredictiveLibrary } from './createPredictiveLibrary';
+import { PredictionCandidate } from './predictionModel';
+import { createTestConfig, createTestLibrary } from './testUtils';
+
+declare global {
+    var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+function candidate(action: string, probability: number): PredictionCandidate {
+    return { action, componentId: action, probability, sequenceScore: probability, timeScore: 0 };
+}
+
+describe('React bindings', () => {
+    let container: HTMLDivElement;
+    let root: Root;
+    let library: PredictiveLibrary;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        container = document.createElement('div');
+        document.body.appendChild(container);
+        root = createRoot(container);
+        library = createTestLibrary();
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        container.remove();
+        library.dispose();
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    const render = (element: JSX.Element) => act(() => root.render(element));
+
+    it('refuses to run hooks outside the provider', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const Orphan = () => {
+            usePredictiveLibrary();
+            return null;
+        };
+
+        expect(() => render(<Orphan />)).toThrow('usePredictiveLibrary must be used inside <PredictiveProvider>');
+    });
+
+    it('hands the given library to its children', () => {
+        let provided: PredictiveLibrary | null = null;
+        const Consumer = () => {
+            provided = usePredictiveLibrary();
+            return null;
+        };
+
+        render(<PredictiveProvider library={library}><Consumer /></PredictiveProvider>);
+        expect(provided).toBe(library);
+    });
+
+    it('disposes a library it created itself after unmounting', () => {
+        jest.useFakeTimers();
+        let owned: PredictiveLibrary | null = null;
+        const Consumer = () => {
+            owned = usePredictiveLibrary();
+            return null;
+        };
+
+        render(
+            <PredictiveProvider config={createTestConfig()}>
+                <Consumer />
+            </PredictiveProvider>
+        );
+        const dispose = jest.spyOn(owned!, 'dispose');
+        render(<div />);
+        expect(dispose).not.toHaveBeenCalled();
+
+        jest.runAllTimers();
+        expect(dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('tracks mounted components and their parent', () => {
+        const Child = () => {
+            useTrackComponent('reviews', 'widget');
+            return null;
+        };
+        const Page = withTracker(() => <Child />, 'product', 'page');
+
+        render(<PredictiveProvider library={library}><Page /></PredictiveProvider>);
+        expect(library.componentTracker.getComponent('product')?.state).toBe('mounted');
+        expect(library.componentTracker.getComponent('reviews')?.parentId).toBe('product');
+
+        render(<PredictiveProvider library={library}><div /></PredictiveProvider>);
+        expect(library.componentTracker.getComponent('product')?.state).toBe('unmounted');
+    });
+
+    it('tracks interactions through the hook and the link', () => {
+        const track = jest.spyOn(library.interactionTracker, 'trackInteraction').mockImplementation(() => undefined);
+        const Button = () => {
+            const trackInteraction = useTrackInteraction();
+            return <button onClick={() => trackInteraction('add-to-cart', { slot: 'top' })} />;
+        };
+
+        render(
+            <PredictiveProvider library={library}>
+                <Button />
+                <PredictiveLink action="open-cart" href="#cart">Cart</PredictiveLink>
+            </PredictiveProvider>
+        );
+        act(() => container.querySelector('button')!.click());
+        act(() => container.querySelector('a')!.click());
+
+        expect(track.mock.calls).toEqual([['add-to-cart', { slot: 'top' }], ['open-cart', undefined]]);
+    });
+
+    it('re-renders with a new prediction when the model makes one', () => {
+        let prediction = [candidate('home', 0.6)];
+        jest.spyOn(library.model, 'predictTopK').mockImplementation(() => prediction);
+        const renders: string[][] = [];
+        const Prediction = () => {
+            renders.push(usePrediction(2).map(({ action }) => action));
+            return null;
+        };
+
+        render(<PredictiveProvider library={library}><Prediction /></PredictiveProvider>);
+        act(() => library.events.emit('predictionMade', { timestamp: 0, candidates: prediction, latencyMs: 0 }));
+        prediction = [candidate('search', 0.7), candidate('home', 0.3)];
+        act(() => library.events.emit('predictionMade', { timestamp: 0, candidates: prediction, latencyMs: 0 }));
+
+        expect(renders).toEqual([['home'], ['search', 'home']]);
+    });
+});
@@ -0,0 +1,190 @@
+//react.tsx
+import {
+    AnchorHTMLAttributes,
+    ComponentType,
+    ReactNode,
+    createContext,
+    forwardRef,
+    useCallback,
+    useContext,
+    useEffect,
+    useRef,
+    useState,
+} from 'react';
+import { PredictiveLibrary, PredictiveLibraryConfig, createPredictiveLibrary } from './createPredictiveLibrary';
+import { PredictionCandidate } from './predictionModel';
+import { InteractionContext } from './context';
+
+export interface PredictiveProviderProps {
+    library?: PredictiveLibrary;
+    config?: PredictiveLibraryConfig;
+    children?: ReactNode;
+}
+
+export interface PredictiveLinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+    action: string;
+    componentId?: string;
+    context?: InteractionContext;
+    hoverDelayMs?: number;
+}
+
+const PredictiveContext = createContext<PredictiveLibrary | null>(null);
+const ParentComponentContext = createContext<string | undefined>(undefined);
+
+export function PredictiveProvider({ library, config, children }: PredictiveProviderProps) {
+    const [ownedLibrary] = useState(() => (library ? null : createPredictiveLibrary(config)));
+    const disposeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        if (!ownedLibrary) return;
+        if (disposeTimer.current) {
+            clearTimeout(disposeTimer.current);
+            disposeTimer.current = null;
+        }
+        // Deferred so that StrictMode's mount/unmount/mount cycle does not dispose a library that is still in use.
+        return () => {
+            disposeTimer.current = setTimeout(() => ownedLibrary.dispose(), 0);
+        };
+    }, [ownedLibrary]);
+
+    return (
+        <PredictiveContext.Provider value={library ?? ownedLibrary}>
+            {children}
+        </PredictiveContext.Provider>
+    );
+}
+
+export function usePredictiveLibrary(): PredictiveLibrary {
+    const library = useContext(PredictiveContext);
+    if (!library) {
+        throw new Error('usePredictiveLibrary must be used inside <PredictiveProvider>');
+    }
+    return library;
+}
+
+export function useTrackComponent(id: string, type: string, metadata?: Record<string, any>, parentId?: string): void {
+    const { componentTracker } = usePredictiveLibrary();
+    const contextParentId = useContext(ParentComponentContext);
+    const resolvedParentId = parentId ?? contextParentId;
+    const metadataRef = useRef(metadata);
+    metadataRef.current = metadata;
+
+    useEffect(() => {
+        componentTracker.trackComponent(id, type, metadataRef.current, { parentId: resolvedParentId });
+        componentTracker.mountComponent(id);
+        return () => componentTracker.unmountComponent(id);
+    }, [componentTracker, id, type, resolvedParentId]);
+}
+
+export function withTracker<P extends object>(
+    WrappedComponent: ComponentType<P>,
+    id: string,
+    type: string,
+    metadata?: Record<string, any>
+): ComponentType<P> {
+    const Tracked = (props: P) => {
+        useTrackComponent(id, type, metadata);
+        return (
+            <ParentComponentContext.Provider value={id}>
+                <WrappedComponent {...props} />
+            </ParentComponentContext.Provider>
+        );
+    };
+    Tracked.displayName = `withTracker(${WrappedComponent.displayName || WrappedComponent.name || 'Component'})`;
+    return Tracked;
+}
+
+export function useTrackInteraction(): (actionType: string, context?: InteractionContext) => void {
+    const { interactionTracker } = usePredictiveLibrary();
+    return useCallback(
+        (actionType: string, context?: InteractionContext) => interactionTracker.trackInteraction(actionType, context),
+        [interactionTracker]
+    );
+}
+
+function samePrediction(a: PredictionCandidate[], b: PredictionCandidate[]): boolean {
+    return a.length === b.length
+        && a.every((candidate, index) => candidate.action === b[index].action && candidate.probability === b[index].probability);
+}
+
+export function usePrediction(k: number = 3): PredictionCandidate[] {
+    const { model, events } = usePredictiveLibrary();
+    const [prediction, setPrediction] = useState<PredictionCandidate[]>(() => model.predictTopK(k));
+
+    useEffect(() => {
+        const refresh = () => {
+            const next = model.predictTopK(k);
+            setPrediction(previous => (samePrediction(previous, next) ? previous : next));
+        };
+        refresh();
+        const disposers = [events.on('predictionMade', refresh), events.on('modelInitialized', refresh)];
+        return () => disposers.forEach(dispose => dispose());
+    }, [model, events, k]);
+
+    return prediction;
+}
+
+export function useRouteTracking(pathname: string): void {
+    const { navigation } = usePredictiveLibrary();
+
+    useEffect(() => {
+        if (!navigation) {
+            console.warn('useRouteTracking: navigation is not configured in createPredictiveLibrary');
+            return;
+        }
+        navigation.handleNavigation(pathname);
+    }, [navigation, pathname]);
+}
+
+export const PredictiveLink = forwardRef<HTMLAnchorElement, PredictiveLinkProps>(function PredictiveLink(
+    { action, componentId, context, hoverDelayMs = 100, onClick, onMouseEnter, onMouseLeave, onFocus, onTouchStart, ...rest },
+    ref
+) {
+    const { componentTracker, interactionTracker, preloader } = usePredictiveLibrary();
+    const hoverTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const cancelHover = useCallback(() => {
+        if (hoverTimer.current) {
+            clearTimeout(hoverTimer.current);
+            hoverTimer.current = null;
+        }
+    }, []);
+
+    useEffect(() => cancelHover, [cancelHover]);
+
+    const preload = useCallback(() => {
+        cancelHover();
+        const target = componentId ?? componentTracker.getComponentByAction(action);
+        if (target && (preloader.hasLoader(target) || componentTracker.getResources(target).length)) {
+            preloader.preloadComponent(target);
+        }
+    }, [action, componentId, componentTracker, preloader, cancelHover]);
+
+    return (
+        <a
+            {...rest}
+            ref={ref}
+            onClick={(event) => {
+                interactionTracker.trackInteraction(action, context);
+                onClick?.(event);
+            }}
+            onMouseEnter={(event) => {
+                cancelHover();
+                hoverTimer.current = setTimeout(preload, hoverDelayMs);
+                onMouseEnter?.(event);
+            }}
+            onMouseLeave={(event) => {
+                cancelHover();
+                onMouseLeave?.(event);
+            }}
+            onFocus={(event) => {
+                preload();
+                onFocus?.(event);
+            }}
+            onTouchStart={(event) => {
+                preload();
+                onTouchStart?.(event);
+            }}
+        />
+    );
+});
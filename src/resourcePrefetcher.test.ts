@@ -0,0 +1,121 @@
+/**
+ * @jest-environment jsdom
+ */
+import ResourcePrefetcher, { PrefetchResource } from './resourcePrefetcher';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function deferredResource(key: string) {
+    const calls: Array<{ signal?: AbortSignal; resolve: (value: unknown) => void }> = [];
+    const resource: PrefetchResource = {
+        type: 'data',
+        key,
+        load: signal => new Promise((resolve, reject) => {
+            calls.push({ signal, resolve });
+            signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    };
+    return { resource, calls };
+}
+
+describe('ResourcePrefetcher', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('re-issues a prefetch whose speculative caller aborted before anyone read it', async () => {
+        const prefetcher = new ResourcePrefetcher({ fetch: jest.fn() as unknown as typeof fetch });
+        const { resource, calls } = deferredResource('user');
+        const controller = new AbortController();
+
+        prefetcher.prefetch([resource], controller.signal);
+        await flush();
+        controller.abort();
+        expect(calls[0].signal!.aborted).toBe(true);
+        expect(prefetcher.get('user')).toBeNull();
+
+        const [retry] = prefetcher.prefetch([resource]);
+        await flush();
+        calls[1].resolve({ id: 1 });
+        await expect(retry).resolves.toEqual({ id: 1 });
+    });
+
+    it('does not abort a prefetch that a reader has already taken', async () => {
+        const prefetcher = new ResourcePrefetcher({ fetch: jest.fn() as unknown as typeof fetch });
+        const { resource, calls } = deferredResource('user');
+        const controller = new AbortController();
+
+        prefetcher.prefetch([resource], controller.signal);
+        await flush();
+        const reader = prefetcher.get('user')!;
+        controller.abort();
+
+        calls[0].resolve({ id: 1 });
+        await expect(reader).resolves.toEqual({ id: 1 });
+        expect(calls).toHaveLength(1);
+    });
+
+    it('keeps a shared prefetch running until every speculative caller aborts', async () => {
+        const prefetcher = new ResourcePrefetcher({ fetch: jest.fn() as unknown as typeof fetch });
+        const { resource, calls } = deferredResource('user');
+        const first = new AbortController();
+        const second = new AbortController();
+
+        prefetcher.prefetch([resource], first.signal);
+        prefetcher.prefetch([resource], second.signal);
+        await flush();
+
+        first.abort();
+        expect(calls[0].signal!.aborted).toBe(false);
+        second.abort();
+        expect(calls[0].signal!.aborted).toBe(true);
+    });
+
+    describe('resource hints', () => {
+        const image: PrefetchResource = { type: 'image', url: '/hero.png' };
+        const prefetchLinks = () => document.head.querySelectorAll('link[rel="prefetch"]');
+
+        afterEach(() => {
+            document.head.innerHTML = '';
+            jest.useRealTimers();
+        });
+
+        it('skips hints when the browser does not support prefetch links', () => {
+            jest.spyOn(DOMTokenList.prototype, 'supports').mockReturnValue(false);
+            const prefetcher = new ResourcePrefetcher();
+
+            expect(prefetcher.prefetch([image])).toEqual([]);
+            expect(prefetchLinks()).toHaveLength(0);
+            expect(prefetcher.isWarm([image])).toBe(false);
+        });
+
+        it('keeps a hint once the link has loaded', async () => {
+            jest.spyOn(DOMTokenList.prototype, 'supports').mockReturnValue(true);
+            const prefetcher = new ResourcePrefetcher();
+
+            const [hint] = prefetcher.prefetch([image]);
+            prefetchLinks()[0].dispatchEvent(new Event('load'));
+
+            await expect(hint).resolves.toBeUndefined();
+            expect(prefetcher.isWarm([image])).toBe(true);
+        });
+
+        it('gives up on a hint that neither loads nor fails', async () => {
+            jest.useFakeTimers();
+            jest.spyOn(DOMTokenList.prototype, 'supports').mockReturnValue(true);
+            const prefetcher = new ResourcePrefetcher({ hintTimeoutMs: 5000 });
+
+            const [hint] = prefetcher.prefetch([image]);
+            expect(prefetchLinks()).toHaveLength(1);
+            jest.advanceTimersByTime(5000);
+
+            await expect(hint).resolves.toBeUndefined();
+            expect(prefetchLinks()).toHaveLength(0);
+            expect(prefetcher.isWarm([image])).toBe(false);
+        });
+    });
+});
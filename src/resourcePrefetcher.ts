@@ -0,0 +1,210 @@
+//resourcePrefetcher.ts
+import PreloadCache, { PreloadCacheOptions, PreloadCacheStats } from './preloadCache';
+
+export type ResponseFormat = 'json' | 'text' | 'blob' | 'arrayBuffer';
+
+export type PrefetchResource =
+    | { type: 'fetch'; url: string; init?: RequestInit; key?: string; format?: ResponseFormat; maxAgeMs?: number }
+    | { type: 'data'; key: string; load: (signal?: AbortSignal) => Promise<unknown>; maxAgeMs?: number }
+    | { type: 'image'; url: string }
+    | { type: 'style'; url: string }
+    | { type: 'hint'; url: string; as?: string };
+
+export interface ResourcePrefetcherOptions {
+    cache?: PreloadCacheOptions;
+    maxAgeMs?: number;
+    fetch?: typeof fetch;
+    document?: Document;
+    hintTimeoutMs?: number;
+}
+
+type DataEntry = {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    // Speculative callers that can still abort the request; once a reader claims the entry it is never aborted.
+    holders: number;
+    claimed: boolean;
+    loaded: boolean;
+};
+
+class ResourcePrefetcher {
+    private cache: PreloadCache<DataEntry>;
+    private maxAgeMs: number;
+    private fetchImpl: typeof fetch | null;
+    private document: Document | null;
+    private hints: Map<string, Promise<void>>;
+    private hintTimeoutMs: number;
+
+    constructor(options: ResourcePrefetcherOptions = {}) {
+        this.maxAgeMs = options.maxAgeMs ?? 60 * 1000;
+        this.cache = new PreloadCache({ ttlMs: this.maxAgeMs, ...options.cache });
+        this.fetchImpl = options.fetch ?? (typeof fetch === 'function' ? fetch.bind(globalThis) : null);
+        this.document = options.document ?? (typeof document !== 'undefined' ? document : null);
+        this.hints = new Map();
+        this.hintTimeoutMs = options.hintTimeoutMs ?? 10 * 1000;
+    }
+
+    public static getKey(resource: PrefetchResource): string {
+        switch (resource.type) {
+            case 'fetch':
+                return resource.key ?? resource.url;
+            case 'data':
+                return resource.key;
+            default:
+                return resource.url;
+        }
+    }
+
+    public prefetch(resources: PrefetchResource[], signal?: AbortSignal): Promise<unknown>[] {
+        return resources
+            .map(resource => this.prefetchResource(resource, signal))
+            .filter((promise): promise is Promise<unknown> => promise !== null);
+    }
+
+    public prefetchResource(resource: PrefetchResource, signal?: AbortSignal): Promise<unknown> | null {
+        if (resource.type === 'fetch' || resource.type === 'data') {
+            return this.prefetchData(resource, signal);
+        }
+        return this.addHint(resource);
+    }
+
+    public isWarm(resources: PrefetchResource[]): boolean {
+        return resources.every((resource) => {
+            const key = ResourcePrefetcher.getKey(resource);
+            return resource.type === 'fetch' || resource.type === 'data' ? this.cache.has(key) : this.hints.has(key);
+        });
+    }
+
+    public get<T = unknown>(key: string): Promise<T> | null {
+        const entry = this.cache.get(key);
+        if (!entry) return null;
+        entry.claimed = true;
+        return entry.promise as Promise<T>;
+    }
+
+    public invalidate(key: string): boolean {
+        return this.cache.invalidate(key);
+    }
+
+    public clear(): void {
+        this.cache.clear();
+    }
+
+    public getCacheStats(): PreloadCacheStats {
+        return this.cache.getStats();
+    }
+
+    private prefetchData(
+        resource: Extract<PrefetchResource, { type: 'fetch' | 'data' }>,
+        signal?: AbortSignal
+    ): Promise<unknown> | null {
+        const key = ResourcePrefetcher.getKey(resource);
+        const cached = this.cache.peek(key);
+        if (cached) {
+            this.hold(key, cached, signal);
+            return cached.promise;
+        }
+
+        const controller = new AbortController();
+        let load: () => Promise<unknown>;
+        if (resource.type === 'data') {
+            load = () => resource.load(controller.signal);
+        } else {
+            const fetchImpl = this.fetchImpl;
+            if (!fetchImpl) {
+                console.warn(`Предзагрузка '${resource.url}' пропущена: fetch недоступен`);
+                return null;
+            }
+            load = () => fetchImpl(resource.url, { ...resource.init, signal: controller.signal }).then((response) => {
+                if (!response.ok) {
+                    throw new Error(`Prefetch of '${resource.url}' failed with status ${response.status}`);
+                }
+                return response[resource.format ?? 'json']();
+            });
+        }
+
+        const entry: DataEntry = { promise: Promise.resolve(), controller, holders: 0, claimed: !signal, loaded: false };
+        entry.promise = Promise.resolve()
+            .then(load)
+            .then((data) => {
+                entry.loaded = true;
+                if (this.cache.peek(key) === entry) {
+                    this.cache.setModule(key, data);
+                }
+                return data;
+            })
+            .catch((error) => {
+                if (this.cache.peek(key) === entry) {
+                    this.cache.delete(key);
+                }
+                if (!controller.signal.aborted) {
+                    console.error(`Ошибка предзагрузки данных '${key}':`, error);
+                }
+                throw error;
+            });
+        // Prefetches are fire-and-forget; readers that call get() still see the rejection.
+        entry.promise.catch(() => undefined);
+
+        this.cache.set(key, entry, resource.maxAgeMs ?? this.maxAgeMs);
+        this.hold(key, entry, signal);
+        return entry.promise;
+    }
+
+    private hold(key: string, entry: DataEntry, signal?: AbortSignal): void {
+        if (!signal) {
+            entry.claimed = true;
+            return;
+        }
+        if (entry.claimed || signal.aborted) return;
+
+        entry.holders++;
+        signal.addEventListener('abort', () => {
+            entry.holders--;
+            if (entry.holders > 0 || entry.claimed || entry.loaded) return;
+            // Drop the entry before aborting so the next reader re-issues the request instead of getting the rejection.
+            if (this.cache.peek(key) === entry) {
+                this.cache.delete(key);
+            }
+            entry.controller.abort();
+        }, { once: true });
+    }
+
+    private addHint(resource: Extract<PrefetchResource, { type: 'image' | 'style' | 'hint' }>): Promise<void> | null {
+        const existing = this.hints.get(resource.url);
+        if (existing) return existing;
+        if (!this.document) return null;
+
+        const link = this.document.createElement('link');
+        // Browsers without prefetch support ignore the link and never fire load or error on it.
+        if (!link.relList?.supports?.('prefetch')) return null;
+        link.rel = 'prefetch';
+        link.href = resource.url;
+        const as = resource.type === 'image' ? 'image' : resource.type === 'style' ? 'style' : resource.as;
+        if (as) {
+            link.setAttribute('as', as);
+        }
+
+        const promise = new Promise<void>((resolve) => {
+            const forget = () => {
+                clearTimeout(timeout);
+                this.hints.delete(resource.url);
+                resolve();
+            };
+            // Some browsers drop prefetches silently (data saver, cache partitioning), so the hint gives up after a while.
+            const timeout = setTimeout(() => {
+                link.remove();
+                forget();
+            }, this.hintTimeoutMs);
+            link.onload = () => {
+                clearTimeout(timeout);
+                resolve();
+            };
+            link.onerror = forget;
+        });
+        this.hints.set(resource.url, promise);
+        this.document.head.appendChild(link);
+        return promise;
+    }
+}
+
+export default ResourcePrefetcher;
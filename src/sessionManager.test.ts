@@ -0,0 +1,79 @@
+/**
+ * @jest-environment jsdom
+ */
+import SessionManager from './sessionManager';
+
+const START = Date.UTC(2024, 0, 1, 12);
+const MINUTE = 60 * 1000;
+const STORAGE_KEY = 'predict_library_session';
+
+describe('SessionManager', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        sessionStorage.clear();
+        jest.restoreAllMocks();
+    });
+
+    it('starts a session on the first touch and keeps it while the user is active', () => {
+        const sessions = new SessionManager({ inactivityTimeoutMs: 30 * MINUTE });
+        expect(sessions.getCurrentSessionId(START)).toBeNull();
+
+        const id = sessions.touch(START);
+        expect(sessions.touch(START + 20 * MINUTE)).toBe(id);
+        expect(sessions.touch(START + 45 * MINUTE)).toBe(id);
+        expect(sessions.getCurrentSessionId(START + 75 * MINUTE)).toBe(id);
+    });
+
+    it('starts a new session after the inactivity timeout', () => {
+        const sessions = new SessionManager({ inactivityTimeoutMs: 30 * MINUTE });
+        const first = sessions.touch(START);
+
+        expect(sessions.isActive(START + 31 * MINUTE)).toBe(false);
+        expect(sessions.getCurrentSessionId(START + 31 * MINUTE)).toBeNull();
+        expect(sessions.touch(START + 31 * MINUTE)).not.toBe(first);
+    });
+
+    it('does not move the last activity back for late timestamps', () => {
+        const sessions = new SessionManager({ inactivityTimeoutMs: 30 * MINUTE });
+        const id = sessions.touch(START + 20 * MINUTE);
+        sessions.touch(START);
+
+        expect(sessions.getCurrentSessionId(START + 45 * MINUTE)).toBe(id);
+    });
+
+    it('ends the session on request', () => {
+        const sessions = new SessionManager();
+        const id = sessions.touch(START);
+        sessions.endSession();
+
+        expect(sessions.getCurrentSessionId(START)).toBeNull();
+        expect(sessions.touch(START)).not.toBe(id);
+    });
+
+    it('continues the session of this tab after a reload', () => {
+        const id = new SessionManager().touch(START);
+        expect(JSON.parse(sessionStorage.getItem(STORAGE_KEY)!).id).toBe(id);
+
+        expect(new SessionManager().touch(START + MINUTE)).toBe(id);
+    });
+
+    it('forgets the stored session once it ends', () => {
+        const sessions = new SessionManager();
+        sessions.touch(START);
+        sessions.endSession();
+
+        expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('ignores unreadable storage and keeps nothing without a storage key', () => {
+        sessionStorage.setItem(STORAGE_KEY, '{not json');
+        expect(new SessionManager().getCurrentSessionId(START)).toBeNull();
+
+        sessionStorage.clear();
+        new SessionManager({ storageKey: null }).touch(START);
+        expect(sessionStorage.length).toBe(0);
+    });
+});
@@ -0,0 +1,94 @@
+//sessionManager.ts
+export interface SessionManagerOptions {
+    inactivityTimeoutMs?: number;
+    storageKey?: string | null;
+}
+
+type SessionState = {
+    id: string;
+    startedAt: number;
+    lastActivity: number;
+};
+
+function generateSessionId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+class SessionManager {
+    private static instance: SessionManager;
+    private inactivityTimeoutMs: number;
+    private storageKey: string | null;
+    private session: SessionState | null;
+
+    constructor(options: SessionManagerOptions = {}) {
+        this.inactivityTimeoutMs = options.inactivityTimeoutMs ?? 30 * 60 * 1000;
+        this.storageKey = options.storageKey === undefined ? 'predict_library_session' : options.storageKey;
+        this.session = this.loadSession();
+    }
+
+    public static getInstance(): SessionManager {
+        if (!SessionManager.instance) {
+            SessionManager.instance = new SessionManager();
+        }
+        return SessionManager.instance;
+    }
+
+    private loadSession(): SessionState | null {
+        if (!this.storageKey || typeof window === 'undefined' || !window.sessionStorage) return null;
+        try {
+            const raw = sessionStorage.getItem(this.storageKey);
+            return raw ? JSON.parse(raw) as SessionState : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private persistSession(): void {
+        if (!this.storageKey || typeof window === 'undefined' || !window.sessionStorage) return;
+        if (this.session) {
+            sessionStorage.setItem(this.storageKey, JSON.stringify(this.session));
+        } else {
+            sessionStorage.removeItem(this.storageKey);
+        }
+    }
+
+    public getInactivityTimeout(): number {
+        return this.inactivityTimeoutMs;
+    }
+
+    public startSession(timestamp: number = Date.now()): string {
+        this.session = { id: generateSessionId(), startedAt: timestamp, lastActivity: timestamp };
+        this.persistSession();
+        console.log(`Session '${this.session.id}' started`);
+        return this.session.id;
+    }
+
+    public endSession(): void {
+        if (!this.session) return;
+        console.log(`Session '${this.session.id}' ended`);
+        this.session = null;
+        this.persistSession();
+    }
+
+    public isActive(timestamp: number = Date.now()): boolean {
+        return this.session !== null && timestamp - this.session.lastActivity <= this.inactivityTimeoutMs;
+    }
+
+    public getCurrentSessionId(timestamp: number = Date.now()): string | null {
+        return this.isActive(timestamp) ? this.session!.id : null;
+    }
+
+    public touch(timestamp: number = Date.now()): string {
+        if (!this.isActive(timestamp)) {
+            this.startSession(timestamp);
+        }
+        this.session!.lastActivity = Math.max(this.session!.lastActivity, timestamp);
+        this.persistSession();
+        return this.session!.id;
+    }
+}
+
+export default SessionManager;
@@ -0,0 +1,94 @@
+export interface StoredInteraction {
+  id?: number;
+  actionType: string;
+  actionTypeIV: string;
+  componentId: string;
+  componentIdIV: string;
+  timestamp: number;
+  keyVersion?: string;
+  componentHash?: string;
+  sessionId?: string;
+  timezone?: string;
+  context?: string;
+  contextIV?: string;
+}
+
+export interface InteractionCursor {
+  timestamp: number;
+  id: number;
+}
+
+export interface StoredInteractionQuery {
+  from?: number;
+  to?: number;
+  componentHashes?: string[];
+  direction?: 'next' | 'prev';
+  after?: InteractionCursor;
+  limit?: number;
+}
+
+export interface StoredSnapshot {
+  version: number;
+  createdAt: number;
+  lastTimestamp: number;
+  state: string;
+  stateIV: string;
+  keyVersion?: string;
+}
+
+export interface StoredAggregates {
+  updatedAt: number;
+  state: string;
+  stateIV: string;
+  keyVersion?: string;
+}
+
+export interface StoredOutboundRequest {
+  id?: number;
+  path: string;
+  body: string;
+  dedupeKey?: string;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+export interface StorageAdapter {
+  addInteraction(record: StoredInteraction): Promise<void>;
+  getInteractions(afterTimestamp?: number): Promise<StoredInteraction[]>;
+  queryInteractions(query: StoredInteractionQuery): Promise<StoredInteraction[]>;
+  updateInteractions(records: StoredInteraction[]): Promise<void>;
+  deleteInteractions(ids: number[]): Promise<void>;
+  saveSnapshot(record: StoredSnapshot): Promise<void>;
+  getLatestSnapshot(): Promise<StoredSnapshot | null>;
+  saveAggregates(record: StoredAggregates): Promise<void>;
+  getAggregates(): Promise<StoredAggregates | null>;
+  addOutbound(record: StoredOutboundRequest): Promise<number>;
+  getOutbound(): Promise<StoredOutboundRequest[]>;
+  updateOutbound(record: StoredOutboundRequest): Promise<void>;
+  deleteOutbound(ids: number[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export function compareInteractions(a: StoredInteraction, b: StoredInteraction): number {
+  return a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0);
+}
+
+export function isPastCursor(record: StoredInteraction, query: StoredInteractionQuery): boolean {
+  if (!query.after) return true;
+  const order = compareInteractions(record, { ...record, timestamp: query.after.timestamp, id: query.after.id });
+  return query.direction === 'prev' ? order < 0 : order > 0;
+}
+
+export function applyInteractionQuery(records: StoredInteraction[], query: StoredInteractionQuery): StoredInteraction[] {
+  const hashes = query.componentHashes ? new Set(query.componentHashes) : null;
+  const matching = records
+    .filter(record => query.from === undefined || record.timestamp >= query.from)
+    .filter(record => query.to === undefined || record.timestamp <= query.to)
+    .filter(record => !hashes || (record.componentHash !== undefined && hashes.has(record.componentHash)))
+    .filter(record => isPastCursor(record, query))
+    .sort(compareInteractions);
+
+  if (query.direction === 'prev') matching.reverse();
+  return query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+}
@@ -0,0 +1,70 @@
+import { getBucketWeights, getLocalTime, getTimeBucket, getTimezoneOffsetMinutes } from './temporal';
+
+// Monday 2024-01-01 23:30 UTC is already Tuesday 08:30 in Tokyo.
+const MONDAY_LATE = Date.UTC(2024, 0, 1, 23, 30);
+
+describe('temporal bucketing', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('reads the local time in the given timezone', () => {
+        expect(getLocalTime(MONDAY_LATE, 'UTC')).toEqual({ dayOfWeek: 1, hour: 23, minute: 30 });
+        expect(getLocalTime(MONDAY_LATE, 'Asia/Tokyo')).toEqual({ dayOfWeek: 2, hour: 8, minute: 30 });
+        expect(getLocalTime(MONDAY_LATE, 'America/New_York')).toEqual({ dayOfWeek: 1, hour: 18, minute: 30 });
+    });
+
+    it('falls back to the runtime timezone for unknown zones', () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const date = new Date(MONDAY_LATE);
+        expect(getLocalTime(MONDAY_LATE, 'Mars/Olympus')).toEqual({
+            dayOfWeek: date.getDay(),
+            hour: date.getHours(),
+            minute: date.getMinutes(),
+        });
+    });
+
+    it('computes offsets across the date line', () => {
+        expect(getTimezoneOffsetMinutes(MONDAY_LATE, 'Asia/Tokyo')).toBe(9 * 60);
+        expect(getTimezoneOffsetMinutes(Date.UTC(2024, 0, 1, 2), 'America/New_York')).toBe(-5 * 60);
+        expect(getTimezoneOffsetMinutes(MONDAY_LATE, 'Asia/Kolkata')).toBe(5.5 * 60);
+    });
+
+    it('buckets by hour or by hour of the week', () => {
+        const local = { dayOfWeek: 2, hour: 8, minute: 30 };
+        expect(getTimeBucket(local, 'hour')).toBe(8);
+        expect(getTimeBucket(local, 'week-hour')).toBe(2 * 24 + 8);
+    });
+});
+
+describe('Gaussian hour smoothing', () => {
+    it('puts all weight on the current bucket without smoothing', () => {
+        expect(getBucketWeights({ dayOfWeek: 0, hour: 9, minute: 59 }, 'hour', 0)).toEqual(new Map([[9, 1]]));
+    });
+
+    it('weighs buckets by the distance of their middle from the current minute', () => {
+        const weights = getBucketWeights({ dayOfWeek: 0, hour: 9, minute: 30 }, 'hour', 1);
+        expect(weights.get(9)).toBeCloseTo(1);
+        expect(weights.get(8)).toBeCloseTo(weights.get(10)!);
+        expect(weights.get(8)!).toBeLessThan(weights.get(9)!);
+        expect(weights.get(12)!).toBeLessThan(weights.get(11)!);
+    });
+
+    it('gives almost the same weights on both sides of an hour boundary', () => {
+        const before = getBucketWeights({ dayOfWeek: 0, hour: 8, minute: 59 }, 'hour', 1);
+        const after = getBucketWeights({ dayOfWeek: 0, hour: 9, minute: 0 }, 'hour', 1);
+        for (const bucket of [7, 8, 9, 10]) {
+            expect(after.get(bucket)!).toBeCloseTo(before.get(bucket)!, 1);
+        }
+    });
+
+    it('wraps around midnight and the end of the week', () => {
+        const hourly = getBucketWeights({ dayOfWeek: 0, hour: 0, minute: 10 }, 'hour', 1);
+        expect(hourly.get(23)).toBeGreaterThan(hourly.get(2)!);
+        expect(Math.max(...hourly.keys())).toBeLessThan(24);
+
+        const weekly = getBucketWeights({ dayOfWeek: 6, hour: 23, minute: 50 }, 'week-hour', 1);
+        expect(weekly.get(0)).toBeGreaterThan(weekly.get(6 * 24 + 21)!);
+        expect(Math.max(...weekly.keys())).toBeLessThan(7 * 24);
+    });
+});
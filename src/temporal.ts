@@ -0,0 +1,94 @@
+//temporal.ts
+export interface TemporalOptions {
+    dayOfWeek?: boolean;
+    hourSmoothing?: number;
+    dayOfWeekPrior?: number;
+    timezone?: string;
+}
+
+export type TimeBucketScheme = 'hour' | 'week-hour';
+
+export interface LocalTime {
+    dayOfWeek: number;
+    hour: number;
+    minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+export function getDefaultTimezone(): string | undefined {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone;
+    } catch {
+        return undefined;
+    }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat | null {
+    if (!formatters.has(timezone)) {
+        try {
+            formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+                timeZone: timezone,
+                hourCycle: 'h23',
+                weekday: 'short',
+                hour: 'numeric',
+                minute: 'numeric',
+            }));
+        } catch {
+            console.warn(`Unknown timezone '${timezone}', falling back to the runtime timezone`);
+            formatters.set(timezone, null);
+        }
+    }
+    return formatters.get(timezone)!;
+}
+
+export function getLocalTime(timestamp: number, timezone?: string): LocalTime {
+    const formatter = timezone ? getFormatter(timezone) : null;
+    if (!formatter) {
+        const date = new Date(timestamp);
+        return { dayOfWeek: date.getDay(), hour: date.getHours(), minute: date.getMinutes() };
+    }
+
+    const parts = formatter.formatToParts(new Date(timestamp));
+    const value = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+    return {
+        dayOfWeek: WEEKDAYS.indexOf(value('weekday')),
+        hour: Number(value('hour')) % 24,
+        minute: Number(value('minute')),
+    };
+}
+
+export function getTimezoneOffsetMinutes(timestamp: number, timezone?: string): number {
+    const local = getLocalTime(timestamp, timezone);
+    const utc = new Date(timestamp);
+    let offset = (local.hour - utc.getUTCHours()) * 60 + (local.minute - utc.getUTCMinutes());
+    const dayDelta = (local.dayOfWeek - utc.getUTCDay() + 7) % 7;
+    if (dayDelta === 1) offset += 24 * 60;
+    if (dayDelta === 6) offset -= 24 * 60;
+    return offset;
+}
+
+export function getTimeBucket(local: LocalTime, scheme: TimeBucketScheme): number {
+    return scheme === 'week-hour' ? local.dayOfWeek * 24 + local.hour : local.hour;
+}
+
+export function getBucketWeights(local: LocalTime, scheme: TimeBucketScheme, smoothing: number): Map<number, number> {
+    const span = scheme === 'week-hour' ? 7 * 24 : 24;
+    const weights = new Map<number, number>();
+    if (smoothing <= 0) {
+        weights.set(getTimeBucket(local, scheme), 1);
+        return weights;
+    }
+
+    // Gaussian kernel over the continuous time of day, so 8:59 and 9:00 get almost the same weights.
+    const center = (scheme === 'week-hour' ? local.dayOfWeek * 24 : 0) + local.hour + local.minute / 60;
+    const radius = Math.ceil(3 * smoothing);
+    for (let offset = -radius; offset <= radius; offset++) {
+        const bucket = Math.floor(center) + offset;
+        const distance = bucket + 0.5 - center;
+        const key = ((bucket % span) + span) % span;
+        weights.set(key, (weights.get(key) || 0) + Math.exp(-(distance * distance) / (2 * smoothing * smoothing)));
+    }
+    return weights;
+}
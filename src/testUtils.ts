@@ -0,0 +1,23 @@
+//testUtils.ts
+import { createPredictiveLibrary, PredictiveLibrary, PredictiveLibraryConfig } from './createPredictiveLibrary';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+
+export const TEST_ENCRYPTION_KEY = '0'.repeat(64);
+
+// A config for a library that stays offline, starts with consent granted and keeps nothing in localStorage or sessionStorage.
+export function createTestConfig(config: PredictiveLibraryConfig = {}): PredictiveLibraryConfig {
+    return {
+        encryptionKey: TEST_ENCRYPTION_KEY,
+        storage: new MemoryStorageAdapter(),
+        serverUrl: null,
+        consent: { initialState: 'granted', storageKey: null },
+        privacy: { storageKey: null },
+        session: { storageKey: null },
+        autoInitialize: false,
+        ...config,
+    };
+}
+
+export function createTestLibrary(config: PredictiveLibraryConfig = {}): PredictiveLibrary {
+    return createPredictiveLibrary(createTestConfig(config));
+}
@@ -0,0 +1,79 @@
+import UploadQueue from './uploadQueue';
+import MemoryStorageAdapter from './memoryStorageAdapter';
+import EventBus from './eventBus';
+
+const SERVER = 'https://predict.example.com';
+
+describe('UploadQueue backoff', () => {
+    let now: number;
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        now = Date.UTC(2024, 0, 1);
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        fetchMock = jest.spyOn(global, 'fetch') as unknown as jest.Mock;
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('retries failed uploads with exponentially growing delays', async () => {
+        const storage = new MemoryStorageAdapter();
+        const queue = new UploadQueue(SERVER, storage, { baseDelayMs: 1000, events: new EventBus() });
+        fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+        await queue.enqueue('/upload', { count: 1 });
+
+        const delays: number[] = [];
+        for (let attempt = 1; attempt <= 3; attempt++) {
+            await queue.flush();
+            const [record] = await storage.getOutbound();
+            expect(record.attempts).toBe(attempt);
+            delays.push(record.nextAttemptAt - now);
+
+            await queue.flush();
+            expect(fetchMock).toHaveBeenCalledTimes(attempt);
+            now = record.nextAttemptAt;
+        }
+        // With the jitter pinned to its minimum, each delay is half of base * 2^(attempt - 1).
+        expect(delays).toEqual([500, 1000, 2000]);
+    });
+
+    it('caps the delay and drops a request after maxAttempts', async () => {
+        const storage = new MemoryStorageAdapter();
+        const events = new EventBus();
+        const failures: boolean[] = [];
+        events.on('uploadFailed', ({ dropped }) => failures.push(dropped));
+        const queue = new UploadQueue(SERVER, storage, { baseDelayMs: 1000, maxDelayMs: 1500, maxAttempts: 3, events });
+        fetchMock.mockRejectedValue(new Error('offline'));
+        await queue.enqueue('/upload', { count: 1 });
+
+        await queue.flush();
+        now = (await storage.getOutbound())[0].nextAttemptAt;
+        await queue.flush();
+        const [record] = await storage.getOutbound();
+        expect(record.nextAttemptAt - now).toBe(750);
+
+        now = record.nextAttemptAt;
+        await queue.flush();
+        expect(await queue.size()).toBe(0);
+        expect(failures).toEqual([false, false, true]);
+    });
+
+    it('sends due requests for one path as a single batch and clears them', async () => {
+        const storage = new MemoryStorageAdapter();
+        const queue = new UploadQueue(SERVER, storage, { events: new EventBus() });
+        queue.registerBatcher('/upload', bodies => ({ items: bodies }));
+        fetchMock.mockResolvedValue({ ok: true, status: 200 });
+        await queue.enqueue('/upload', { count: 1 });
+        await queue.enqueue('/upload', { count: 2 });
+
+        await queue.flush();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ items: [{ count: 1 }, { count: 2 }] });
+        expect(await queue.size()).toBe(0);
+    });
+});
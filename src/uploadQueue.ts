@@ -0,0 +1,232 @@
+//uploadQueue.ts
+import { StorageAdapter, StoredOutboundRequest } from './storageAdapter';
+import EventBus from './eventBus';
+
+export interface UploadQueueOptions {
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    maxAttempts?: number;
+    batchSize?: number;
+    events?: EventBus;
+}
+
+export interface UploadQueueHooks {
+    beforeFlush?: (path: string) => Promise<boolean>;
+    prepareBody?: (body: any) => any;
+}
+
+type Batcher = (bodies: any[]) => any;
+
+class UploadQueue {
+    private serverUrl: string;
+    private adapter: StorageAdapter;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private maxAttempts: number;
+    private batchSize: number;
+    private hooks: UploadQueueHooks;
+    private batchers: Map<string, Batcher>;
+    private flushing: Promise<void> | null;
+    private timer: ReturnType<typeof setTimeout> | null;
+    private started: boolean;
+    private deferrals: number;
+    private events: EventBus;
+
+    constructor(serverUrl: string, adapter: StorageAdapter, options: UploadQueueOptions = {}) {
+        this.serverUrl = serverUrl;
+        this.adapter = adapter;
+        this.baseDelayMs = options.baseDelayMs ?? 5000;
+        this.maxDelayMs = options.maxDelayMs ?? 6 * 60 * 60 * 1000;
+        this.maxAttempts = options.maxAttempts ?? 12;
+        this.batchSize = options.batchSize ?? 20;
+        this.hooks = {};
+        this.batchers = new Map();
+        this.flushing = null;
+        this.timer = null;
+        this.started = false;
+        this.deferrals = 0;
+        this.events = options.events ?? EventBus.getInstance();
+    }
+
+    public setHooks(hooks: UploadQueueHooks): void {
+        this.hooks = hooks;
+    }
+
+    public registerBatcher(path: string, batcher: Batcher): void {
+        this.batchers.set(path, batcher);
+    }
+
+    public async enqueue(path: string, body: any, dedupeKey?: string): Promise<void> {
+        const now = Date.now();
+        const serialized = JSON.stringify(body);
+
+        if (dedupeKey) {
+            const existing = (await this.adapter.getOutbound()).find(record => record.dedupeKey === dedupeKey);
+            if (existing) {
+                await this.adapter.updateOutbound({ ...existing, path, body: serialized, attempts: 0, nextAttemptAt: now });
+                return;
+            }
+        }
+
+        await this.adapter.addOutbound({ path, body: serialized, dedupeKey, attempts: 0, nextAttemptAt: now, createdAt: now });
+    }
+
+    public async discard(path: string): Promise<number> {
+        const records = (await this.adapter.getOutbound()).filter(record => record.path === path);
+        if (records.length) {
+            await this.adapter.deleteOutbound(records.map(record => record.id!));
+        }
+        return records.length;
+    }
+
+    public start(): void {
+        if (this.started) return;
+        this.started = true;
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', this.handleOnline);
+        }
+        if (typeof document !== 'undefined') {
+            document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        }
+        this.flush();
+    }
+
+    public stop(): void {
+        if (!this.started) return;
+        this.started = false;
+
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', this.handleOnline);
+        }
+        if (typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        }
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private handleOnline = (): void => {
+        this.flush();
+    };
+
+    private handleVisibilityChange = (): void => {
+        // Flush both when the tab comes back and when it is being hidden, before the page may be discarded.
+        this.flush();
+    };
+
+    public async size(): Promise<number> {
+        return (await this.adapter.getOutbound()).length;
+    }
+
+    public flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.runFlush()
+                .catch((error) => console.error('Error flushing upload queue:', error))
+                .finally(() => {
+                    this.flushing = null;
+                });
+        }
+        return this.flushing;
+    }
+
+    private async runFlush(): Promise<void> {
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+        const now = Date.now();
+        const due = (await this.adapter.getOutbound())
+            .filter(record => record.nextAttemptAt <= now)
+            .sort((a, b) => a.createdAt - b.createdAt)
+            .slice(0, this.batchSize);
+
+        const groups = new Map<string, StoredOutboundRequest[]>();
+        for (const record of due) {
+            groups.set(record.path, [...(groups.get(record.path) || []), record]);
+        }
+
+        let deferred = false;
+        for (const [path, records] of groups.entries()) {
+            if (this.hooks.beforeFlush && !(await this.hooks.beforeFlush(path))) {
+                deferred = true;
+                continue;
+            }
+            const batcher = this.batchers.get(path);
+            if (batcher && records.length > 1) {
+                await this.sendRecords(path, records, batcher(records.map(record => JSON.parse(record.body))));
+            } else {
+                for (const record of records) {
+                    await this.sendRecords(path, [record], JSON.parse(record.body));
+                }
+            }
+        }
+
+        if (deferred) {
+            this.deferrals++;
+            this.scheduleAt(Date.now() + this.getBackoffDelay(this.deferrals));
+            return;
+        }
+        this.deferrals = 0;
+        await this.scheduleNext();
+    }
+
+    private async sendRecords(path: string, records: StoredOutboundRequest[], body: any): Promise<void> {
+        try {
+            const prepared = this.hooks.prepareBody ? this.hooks.prepareBody(body) : body;
+            const response = await fetch(`${this.serverUrl}${path}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(prepared),
+                keepalive: true,
+            });
+            if (!response.ok) throw new Error(response.statusText || `HTTP ${response.status}`);
+
+            await this.adapter.deleteOutbound(records.map(record => record.id!));
+            console.log(`Uploaded ${records.length} queued request(s) to ${path}`);
+            this.events.emit('uploadSucceeded', { path, count: records.length });
+        } catch (error) {
+            console.error(`Error uploading queued request(s) to ${path}:`, error);
+            const dropped = await this.reschedule(records);
+            this.events.emit('uploadFailed', { path, count: records.length, error, dropped: dropped > 0 });
+        }
+    }
+
+    private async reschedule(records: StoredOutboundRequest[]): Promise<number> {
+        const now = Date.now();
+        let dropped = 0;
+        for (const record of records) {
+            const attempts = record.attempts + 1;
+            if (attempts >= this.maxAttempts) {
+                console.error(`Dropping queued request to ${record.path} after ${attempts} failed attempts`);
+                await this.adapter.deleteOutbound([record.id!]);
+                dropped++;
+                continue;
+            }
+            await this.adapter.updateOutbound({ ...record, attempts, nextAttemptAt: now + this.getBackoffDelay(attempts) });
+        }
+        return dropped;
+    }
+
+    private getBackoffDelay(attempts: number): number {
+        const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+        return exponential / 2 + Math.random() * (exponential / 2);
+    }
+
+    private async scheduleNext(): Promise<void> {
+        const pending = await this.adapter.getOutbound();
+        if (!pending.length) return;
+        this.scheduleAt(Math.min(...pending.map(record => record.nextAttemptAt)));
+    }
+
+    private scheduleAt(timestamp: number): void {
+        if (!this.started) return;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.flush();
+        }, Math.max(0, timestamp - Date.now()));
+    }
+}
+
+export default UploadQueue;
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createTestLibrary } from './testUtils';
+
+const SERVER = 'https://predict.example.com';
+const APP_ID_STORAGE_KEY = 'prediction_model_app_id';
+const CONSENT_STORAGE_KEY = 'predict_library_consent';
+
+describe('User data rights without consent', () => {
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+        global.fetch = fetchMock;
+        localStorage.setItem(CONSENT_STORAGE_KEY, 'denied');
+        localStorage.setItem(APP_ID_STORAGE_KEY, 'app-123');
+    });
+
+    afterEach(() => {
+        localStorage.clear();
+        jest.restoreAllMocks();
+    });
+
+    function createLibrary() {
+        return createTestLibrary({ serverUrl: SERVER, consent: { storageKey: CONSENT_STORAGE_KEY } });
+    }
+
+    it('asks the server to erase the stored app id after consent was withdrawn', async () => {
+        const library = createLibrary();
+        expect(library.consentManager.getState()).toBe('denied');
+
+        await library.model.eraseUserData();
+
+        const erase = fetchMock.mock.calls.find(([url]) => url === `${SERVER}/delete-user-data`);
+        expect(erase).toBeDefined();
+        expect(JSON.parse(erase![1].body)).toMatchObject({ appId: 'app-123' });
+        expect(localStorage.getItem(APP_ID_STORAGE_KEY)).toBeNull();
+        library.dispose();
+    });
+
+    it('reports the stored app id in the export', async () => {
+        const library = createLibrary();
+
+        const exported = await library.model.exportUserData();
+
+        expect(exported.appId).toBe('app-123');
+        expect(fetchMock).not.toHaveBeenCalled();
+        library.dispose();
+    });
+});
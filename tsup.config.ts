@@ -4,13 +4,15 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 export default defineConfig({
-  entry: ['src/index.ts'],        // Главный файл
-  splitting: false,               // Разделение файлов (false для библиотек)
+  entry: ['src/index.ts', 'src/react.tsx', 'src/node.ts'], // Главный файл, React-биндинги и Node-адаптеры
+  splitting: true,                // Общее ядро выносится в чанк, чтобы index, react и node не дублировали его
   sourcemap: true,                // Карты исходников для отладки
   clean: true,                    // Очистить dist перед сборкой
   dts: true,                      // Генерация .d.ts типов
   format: ['cjs', 'esm'],         // Вывод в двух форматах: CommonJS и ES Module
-  minify: true,  
+  // Минификация выключена: при splitting CJS-чанки проходят через sucrase, и минифицированный код ломается при загрузке.
+  // Приложения все равно минифицируют библиотеку своим сборщиком.
+  minify: false,
   esbuildOptions(options) {
     options.define = {
       'process.env.ENCRYPTION_KEY': JSON.stringify(process.env.ENCRYPTION_KEY),